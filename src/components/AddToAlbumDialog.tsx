@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { AlbumPhotoSource, useAddPhotosToAlbum, useAlbums, useCreateAlbum } from "@/hooks/use-albums";
+
+interface AddToAlbumDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  photos: AlbumPhotoSource[];
+  onAdded?: () => void;
+}
+
+const NEW_ALBUM = "__new__";
+
+const AddToAlbumDialog = ({ open, onOpenChange, userId, photos, onAdded }: AddToAlbumDialogProps) => {
+  const [target, setTarget] = useState<string>(NEW_ALBUM);
+  const [newName, setNewName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { data: allAlbums } = useAlbums(open);
+  const createAlbum = useCreateAlbum();
+  const addPhotos = useAddPhotosToAlbum();
+  // Only the user's own albums; shared ones are added to from inside the album.
+  const albums = (allAlbums ?? []).filter((album) => album.user_id === userId);
+  const firstAlbumId = albums[0]?.id;
+
+  useEffect(() => {
+    if (open) setTarget(firstAlbumId ?? NEW_ALBUM);
+  }, [open, firstAlbumId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    let albumId = target;
+    let albumName = albums.find((album) => album.id === target)?.name;
+
+    if (target === NEW_ALBUM) {
+      try {
+        const album = await createAlbum.mutateAsync({ userId, name: newName });
+        albumId = album.id;
+        albumName = album.name;
+      } catch (error) {
+        toast({
+          title: "Erro ao criar álbum",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+        setSaving(false);
+        return;
+      }
+    }
+
+    try {
+      await addPhotos.mutateAsync({ albumId, photos });
+      toast({
+        title: "Fotos adicionadas!",
+        description: `${photos.length} foto(s) adicionada(s) a "${albumName}".`,
+      });
+      setNewName("");
+      onOpenChange(false);
+      onAdded?.();
+    } catch (error) {
+      toast({
+        title: "Erro ao adicionar fotos",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Adicionar ao álbum</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <RadioGroup value={target} onValueChange={setTarget} className="max-h-64 overflow-y-auto">
+            {albums.map((album) => (
+              <div key={album.id} className="flex items-center gap-2">
+                <RadioGroupItem value={album.id} id={`album-${album.id}`} />
+                <Label htmlFor={`album-${album.id}`} className="font-normal">
+                  {album.name}
+                </Label>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value={NEW_ALBUM} id="album-new" />
+              <Label htmlFor="album-new" className="font-normal">
+                Novo álbum
+              </Label>
+            </div>
+          </RadioGroup>
+          {target === NEW_ALBUM && (
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Nome do álbum"
+              required
+              autoFocus
+            />
+          )}
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving ? "Adicionando..." : `Adicionar ${photos.length} ${photos.length === 1 ? "foto" : "fotos"}`}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddToAlbumDialog;
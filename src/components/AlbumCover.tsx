@@ -0,0 +1,50 @@
+import { FolderOpen } from "lucide-react";
+import PhotoImage from "@/components/PhotoImage";
+import { AlbumCoverPhoto, getAlbumCoverPhotos } from "@/lib/album-cover";
+import { cn } from "@/lib/utils";
+
+interface AlbumCoverProps {
+  album: { name: string; cover_photo_id: string | null; cover_style: string };
+  photos: AlbumCoverPhoto[];
+  className?: string;
+}
+
+const AlbumCover = ({ album, photos, className }: AlbumCoverProps) => {
+  const cover = getAlbumCoverPhotos(album, photos);
+
+  if (cover.length === 0) {
+    return (
+      <div className={cn("w-full h-full flex items-center justify-center", className)}>
+        <FolderOpen className="h-12 w-12 text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (cover.length === 1) {
+    return (
+      <PhotoImage
+        photo={cover[0]}
+        sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+        alt={album.name}
+        className={cn("w-full h-full object-cover", className)}
+      />
+    );
+  }
+
+  return (
+    <div className={cn("grid w-full h-full grid-cols-2 grid-rows-2 gap-0.5", className)}>
+      {cover.map((photo) => (
+        <PhotoImage
+          key={photo.id}
+          photo={photo}
+          variant="small"
+          sizes="(min-width: 1024px) 17vw, (min-width: 768px) 25vw, 50vw"
+          alt={album.name}
+          className="w-full h-full object-cover"
+        />
+      ))}
+    </div>
+  );
+};
+
+export default AlbumCover;
@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserPlus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { ALBUM_MEMBER_ROLE_OPTIONS, AlbumMemberRole, inviteErrorMessage } from "@/lib/album-roles";
+
+interface AlbumMember {
+  user_id: string;
+  role: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  email: string;
+}
+
+interface AlbumMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  albumId: string;
+}
+
+const RoleSelect = ({ value, onChange }: { value: string; onChange: (role: AlbumMemberRole) => void }) => (
+  <Select value={value} onValueChange={(role) => onChange(role as AlbumMemberRole)}>
+    <SelectTrigger className="w-36">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {ALBUM_MEMBER_ROLE_OPTIONS.map((option) => (
+        <SelectItem key={option.value} value={option.value}>
+          {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const AlbumMembersDialog = ({ open, onOpenChange, albumId }: AlbumMembersDialogProps) => {
+  const [members, setMembers] = useState<AlbumMember[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AlbumMemberRole>("viewer");
+  const [inviting, setInviting] = useState(false);
+  const { toast } = useToast();
+
+  const loadMembers = async () => {
+    const { data, error } = await supabase.rpc("list_album_members", { target_album_id: albumId });
+
+    if (error) {
+      toast({
+        title: "Erro ao carregar membros",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setMembers(data || []);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadMembers();
+  }, [open, albumId]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+
+    const { error } = await supabase.rpc("invite_album_member", {
+      target_album_id: albumId,
+      member_email: email,
+      member_role: role,
+    });
+
+    if (error) {
+      toast({
+        title: "Erro ao convidar",
+        description: inviteErrorMessage(error.message),
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Membro adicionado!",
+        description: `${email} agora tem acesso ao álbum.`,
+      });
+      setEmail("");
+      loadMembers();
+    }
+    setInviting(false);
+  };
+
+  const handleRoleChange = async (userId: string, newRole: AlbumMemberRole) => {
+    const { error } = await supabase
+      .from("album_members")
+      .update({ role: newRole })
+      .eq("album_id", albumId)
+      .eq("user_id", userId);
+
+    if (error) {
+      toast({
+        title: "Erro ao alterar permissão",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setMembers((prev) => prev.map((member) => (member.user_id === userId ? { ...member, role: newRole } : member)));
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    const { error } = await supabase
+      .from("album_members")
+      .delete()
+      .eq("album_id", albumId)
+      .eq("user_id", userId);
+
+    if (error) {
+      toast({
+        title: "Erro ao remover membro",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setMembers((prev) => prev.filter((member) => member.user_id !== userId));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Membros do álbum</DialogTitle>
+          <DialogDescription>Convide pessoas cadastradas pelo email que usam para entrar.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleInvite} className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="member-email">Email</Label>
+            <Input
+              id="member-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="nome@exemplo.com"
+              required
+            />
+          </div>
+          <RoleSelect value={role} onChange={setRole} />
+          <Button type="submit" size="icon" disabled={inviting} aria-label="Convidar">
+            <UserPlus className="h-4 w-4" />
+          </Button>
+        </form>
+        <ul className="text-xs text-muted-foreground space-y-1">
+          {ALBUM_MEMBER_ROLE_OPTIONS.map((option) => (
+            <li key={option.value}>
+              <span className="font-medium text-foreground">{option.label}:</span> {option.description}
+            </li>
+          ))}
+        </ul>
+
+        {members.length > 0 && (
+          <>
+            <Separator />
+            <ul className="space-y-3 max-h-72 overflow-y-auto">
+              {members.map((member) => (
+                <li key={member.user_id} className="flex items-center gap-3">
+                  <Avatar className="h-9 w-9">
+                    <AvatarImage src={member.avatar_url || undefined} />
+                    <AvatarFallback className="bg-primary/10 text-primary">
+                      {member.email[0].toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{member.display_name || member.email}</p>
+                    {member.display_name !== member.email && (
+                      <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                    )}
+                  </div>
+                  <RoleSelect value={member.role} onChange={(newRole) => handleRoleChange(member.user_id, newRole)} />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => handleRemove(member.user_id)}
+                    aria-label="Remover membro"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlbumMembersDialog;
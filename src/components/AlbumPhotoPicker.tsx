@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Search } from "lucide-react";
+import PhotoImage from "@/components/PhotoImage";
+import { ListPhotosArgs, PHOTO_PAGE_SIZE, photoPageCursor } from "@/lib/photo-pages";
+
+export interface PickerPhoto {
+  id: string;
+  user_id: string;
+  path: string;
+  title: string | null;
+  description: string | null;
+  taken_at: string;
+  created_at: string;
+  small_path: string | null;
+  medium_path: string | null;
+  large_path: string | null;
+  small_width: number | null;
+  medium_width: number | null;
+  large_width: number | null;
+}
+
+interface AlbumPhotoPickerProps {
+  albumId: string;
+  selected: PickerPhoto[];
+  onSelectedChange: (photos: PickerPhoto[]) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * The user's photos that are not in the album yet, searched and paged on the
+ * server so the dialog opens quickly however large the library is.
+ */
+const AlbumPhotoPicker = ({ albumId, selected, onSelectedChange }: AlbumPhotoPickerProps) => {
+  const [query, setQuery] = useState("");
+  const [photos, setPhotos] = useState<PickerPhoto[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cursor = useRef<ListPhotosArgs>({});
+  const searchQuery = useRef("");
+
+  const fetchPage = async (append: boolean) => {
+    setLoading(true);
+    const requestedQuery = searchQuery.current;
+    const { data, error } = await supabase
+      .rpc("list_photos", {
+        exclude_album_id: albumId,
+        search_query: requestedQuery || undefined,
+        page_size: PHOTO_PAGE_SIZE,
+        ...(append ? cursor.current : {}),
+      })
+      .select(
+        "id, user_id, path, title, description, taken_at, created_at, small_path, medium_path, large_path, small_width, medium_width, large_width"
+      );
+
+    // A newer search has started; its own request will fill the grid.
+    if (requestedQuery !== searchQuery.current) return;
+
+    if (error) {
+      setError(error.message);
+    } else {
+      const last = data[data.length - 1];
+      if (last) cursor.current = photoPageCursor(last, "taken");
+      setPhotos((prev) => (append ? [...prev, ...data] : data));
+      setHasMore(data.length === PHOTO_PAGE_SIZE);
+      setError(null);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      searchQuery.current = query.trim();
+      cursor.current = {};
+      fetchPage(false);
+    }, query ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timer);
+  }, [query, albumId]);
+
+  const selectedIds = new Set(selected.map((photo) => photo.id));
+
+  const toggle = (photo: PickerPhoto) =>
+    onSelectedChange(
+      selectedIds.has(photo.id) ? selected.filter((p) => p.id !== photo.id) : [...selected, photo]
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Buscar por título, descrição ou tag..."
+          className="pl-9"
+        />
+      </div>
+
+      {photos.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          {loading
+            ? "Carregando fotos..."
+            : error || (query.trim() ? "Nenhuma foto encontrada" : "Todas as suas fotos já estão neste álbum")}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            {photos.map((photo) => (
+              <div
+                key={photo.id}
+                className="relative aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-all hover:border-primary"
+                style={{
+                  borderColor: selectedIds.has(photo.id) ? "hsl(var(--primary))" : "transparent",
+                }}
+                onClick={() => toggle(photo)}
+              >
+                <PhotoImage
+                  photo={photo}
+                  variant="small"
+                  sizes="200px"
+                  alt={photo.title || "Foto"}
+                  className="w-full h-full object-cover"
+                />
+                <div className="absolute top-2 right-2">
+                  <Checkbox checked={selectedIds.has(photo.id)} />
+                </div>
+              </div>
+            ))}
+          </div>
+          {hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => fetchPage(true)} disabled={loading}>
+                {loading ? "Carregando..." : "Carregar mais"}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AlbumPhotoPicker;
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Copy } from "lucide-react";
+import PhotoImage from "@/components/PhotoImage";
+import { ALBUM_COVER_STYLE_OPTIONS, AlbumCoverPhoto } from "@/lib/album-cover";
+import { ALBUM_SORT_OPTIONS } from "@/lib/album-sort";
+import type { Tables } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+
+export type AlbumSettings = Pick<
+  Tables<"albums">,
+  "name" | "description" | "cover_photo_id" | "cover_style" | "sort_mode"
+>;
+
+interface AlbumSettingsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  album: AlbumSettings;
+  photos: (AlbumCoverPhoto & { title: string | null })[];
+  coverPhotoId?: string;
+  onUpdate: (patch: Partial<AlbumSettings>) => Promise<boolean>;
+  onDuplicate: () => Promise<void>;
+}
+
+const AlbumSettingsSheet = ({
+  open,
+  onOpenChange,
+  album,
+  photos,
+  coverPhotoId,
+  onUpdate,
+  onDuplicate,
+}: AlbumSettingsSheetProps) => {
+  const [name, setName] = useState(album.name);
+  const [description, setDescription] = useState(album.description || "");
+  const [saving, setSaving] = useState(false);
+  const [duplicating, setDuplicating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(album.name);
+    setDescription(album.description || "");
+  }, [open, album.name, album.description]);
+
+  const dirty = name.trim() !== album.name || (description.trim() || null) !== album.description;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    if (await onUpdate({ name: name.trim(), description: description.trim() || null })) {
+      toast({
+        title: "Álbum atualizado",
+        description: "As alterações foram salvas.",
+      });
+    }
+    setSaving(false);
+  };
+
+  const handleDuplicate = async () => {
+    setDuplicating(true);
+    await onDuplicate();
+    setDuplicating(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Configurações do álbum</SheetTitle>
+          <SheetDescription>Altere as informações, a ordenação e a capa do álbum.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="album-name">Nome do Álbum</Label>
+              <Input id="album-name" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="album-description">Descrição (opcional)</Label>
+              <Textarea
+                id="album-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Adicione uma descrição"
+                rows={3}
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={!dirty || !name.trim() || saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </form>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Ordenação padrão</Label>
+            <Select value={album.sort_mode} onValueChange={(sort_mode) => onUpdate({ sort_mode })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALBUM_SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Estilo da capa</Label>
+            <Select value={album.cover_style} onValueChange={(cover_style) => onUpdate({ cover_style })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALBUM_COVER_STYLE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {photos.length > 0 && (
+            <div className="space-y-2">
+              <Label>Foto da capa</Label>
+              <div className="grid grid-cols-4 gap-2 max-h-64 overflow-y-auto p-1">
+                {photos.map((photo) => (
+                  <button
+                    key={photo.id}
+                    type="button"
+                    className={cn(
+                      "aspect-square overflow-hidden rounded-md bg-muted transition-all",
+                      photo.id === coverPhotoId
+                        ? "ring-2 ring-primary ring-offset-2 ring-offset-background"
+                        : "opacity-80 hover:opacity-100"
+                    )}
+                    aria-pressed={photo.id === coverPhotoId}
+                    onClick={() => onUpdate({ cover_photo_id: photo.id })}
+                  >
+                    <PhotoImage
+                      photo={photo}
+                      variant="small"
+                      sizes="96px"
+                      alt={photo.title || "Foto"}
+                      className="w-full h-full object-cover"
+                    />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>Duplicar álbum</Label>
+            <p className="text-sm text-muted-foreground">
+              Cria um novo álbum com as mesmas fotos e configurações. As fotos não são copiadas.
+            </p>
+            <Button variant="outline" className="w-full gap-2" onClick={handleDuplicate} disabled={duplicating}>
+              <Copy className="h-4 w-4" />
+              {duplicating ? "Duplicando..." : "Duplicar álbum"}
+            </Button>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AlbumSettingsSheet;
@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Lock, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getShareUrl, SHARE_EXPIRY_OPTIONS } from "@/lib/share";
+
+interface AlbumShare {
+  id: string;
+  token: string;
+  has_password: boolean | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+interface AlbumShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  albumId: string;
+}
+
+const AlbumShareDialog = ({ open, onOpenChange, albumId }: AlbumShareDialogProps) => {
+  const [shares, setShares] = useState<AlbumShare[]>([]);
+  const [password, setPassword] = useState("");
+  const [expiry, setExpiry] = useState("never");
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+
+  const loadShares = async () => {
+    const { data, error } = await supabase
+      .from("album_shares")
+      .select("id, token, has_password, expires_at, created_at")
+      .eq("album_id", albumId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({
+        title: "Erro ao carregar links",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setShares(data || []);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadShares();
+  }, [open, albumId]);
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(getShareUrl(token));
+    toast({
+      title: "Link copiado!",
+      description: "Cole o link para compartilhar o álbum.",
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+
+    const days = SHARE_EXPIRY_OPTIONS.find((option) => option.value === expiry)?.days;
+    const { error } = await supabase.rpc("create_album_share", {
+      target_album_id: albumId,
+      share_password: password || undefined,
+      share_expires_at: days ? addDays(new Date(), days).toISOString() : undefined,
+    });
+
+    if (error) {
+      toast({
+        title: "Erro ao criar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Link criado!",
+        description: "Qualquer pessoa com o link pode ver este álbum.",
+      });
+      setPassword("");
+      setExpiry("never");
+      loadShares();
+    }
+    setCreating(false);
+  };
+
+  const handleRegenerate = async (shareId: string) => {
+    if (!confirm("Gerar um novo link? O link atual deixará de funcionar.")) return;
+
+    const { error } = await supabase.rpc("regenerate_album_share_token", { share_id: shareId });
+
+    if (error) {
+      toast({
+        title: "Erro ao gerar novo link",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      loadShares();
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    if (!confirm("Revogar este link? Quem o tiver não poderá mais ver o álbum.")) return;
+
+    const { error } = await supabase.from("album_shares").delete().eq("id", shareId);
+
+    if (error) {
+      toast({
+        title: "Erro ao revogar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Link revogado",
+        description: "O link não dá mais acesso ao álbum.",
+      });
+      setShares((prev) => prev.filter((share) => share.id !== shareId));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Compartilhar álbum</DialogTitle>
+          <DialogDescription>
+            Crie links públicos de somente leitura, opcionalmente com senha e validade.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-password">Senha (opcional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Validade</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button type="submit" className="w-full gap-2" disabled={creating}>
+            <Link2 className="h-4 w-4" />
+            {creating ? "Criando..." : "Criar link"}
+          </Button>
+        </form>
+
+        {shares.length > 0 && (
+          <>
+            <Separator />
+            <ul className="space-y-4 max-h-72 overflow-y-auto">
+              {shares.map((share) => {
+                const expired = !!share.expires_at && new Date(share.expires_at) < new Date();
+                return (
+                  <li key={share.id} className="space-y-2">
+                    <div className="flex gap-2">
+                      <Input value={getShareUrl(share.token)} readOnly className="font-mono text-xs" />
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        onClick={() => copyLink(share.token)}
+                        aria-label="Copiar link"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {share.has_password && (
+                          <Badge variant="secondary" className="gap-1">
+                            <Lock className="h-3 w-3" />
+                            Senha
+                          </Badge>
+                        )}
+                        {expired ? (
+                          <Badge variant="destructive">Expirado</Badge>
+                        ) : (
+                          <span>
+                            {share.expires_at
+                              ? `Expira em ${format(new Date(share.expires_at), "d 'de' MMM, HH:mm", { locale: ptBR })}`
+                              : "Sem validade"}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="ghost" className="gap-2" onClick={() => handleRegenerate(share.id)}>
+                          <RefreshCw className="h-3 w-3" />
+                          Novo link
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => handleRevoke(share.id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          Revogar
+                        </Button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlbumShareDialog;
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+interface ChangeEmailDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentEmail: string;
+}
+
+/**
+ * Asks for a new address. Supabase only switches the account over once the
+ * link sent to it is opened, so nothing changes here until then.
+ */
+const ChangeEmailDialog = ({ open, onOpenChange, currentEmail }: ChangeEmailDialogProps) => {
+  const [email, setEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (email.trim().toLowerCase() === currentEmail.toLowerCase()) {
+      toast({
+        title: "Este já é o seu email",
+        description: "Digite um endereço diferente do atual.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.auth.updateUser(
+      { email: email.trim() },
+      { emailRedirectTo: `${window.location.origin}/profile` }
+    );
+
+    if (error) {
+      toast({
+        title: "Erro ao alterar email",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Confirme o novo email",
+        description: `Enviamos um link de confirmação para ${email.trim()}.`,
+      });
+      setEmail("");
+      onOpenChange(false);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Alterar email</DialogTitle>
+          <DialogDescription>
+            Você continua entrando com {currentEmail} até confirmar o novo endereço pelo link que enviaremos para ele.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="new-email">Novo email</Label>
+            <Input
+              id="new-email"
+              type="email"
+              placeholder="novo@email.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              autoFocus
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={saving}>
+            {saving ? "Enviando..." : "Enviar confirmação"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChangeEmailDialog;
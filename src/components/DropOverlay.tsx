@@ -0,0 +1,81 @@
+import { useEffect, useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { getDroppedImageFiles } from "@/lib/upload";
+
+interface DropOverlayProps {
+  onFiles: (files: File[]) => void;
+  label?: string;
+  disabled?: boolean;
+}
+
+const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes("Files") ?? false;
+
+const DropOverlay = ({ onFiles, label = "Solte as fotos para enviar", disabled }: DropOverlayProps) => {
+  const [dragging, setDragging] = useState(false);
+  const depth = useRef(0);
+  const onFilesRef = useRef(onFiles);
+
+  onFilesRef.current = onFiles;
+
+  useEffect(() => {
+    if (disabled) return;
+
+    // dragenter/dragleave fire for every child element, so nesting depth is
+    // tracked to know when the pointer actually leaves the window.
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth.current += 1;
+      setDragging(true);
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = "copy";
+    };
+
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth.current = Math.max(0, depth.current - 1);
+      if (depth.current === 0) setDragging(false);
+    };
+
+    const handleDrop = async (e: DragEvent) => {
+      if (!hasFiles(e) || !e.dataTransfer) return;
+      e.preventDefault();
+      depth.current = 0;
+      setDragging(false);
+
+      const files = await getDroppedImageFiles(e.dataTransfer);
+      if (files.length > 0) onFilesRef.current(files);
+    };
+
+    window.addEventListener("dragenter", handleDragEnter);
+    window.addEventListener("dragover", handleDragOver);
+    window.addEventListener("dragleave", handleDragLeave);
+    window.addEventListener("drop", handleDrop);
+
+    return () => {
+      window.removeEventListener("dragenter", handleDragEnter);
+      window.removeEventListener("dragover", handleDragOver);
+      window.removeEventListener("dragleave", handleDragLeave);
+      window.removeEventListener("drop", handleDrop);
+      depth.current = 0;
+      setDragging(false);
+    };
+  }, [disabled]);
+
+  if (!dragging) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm pointer-events-none">
+      <div className="flex flex-col items-center gap-4 rounded-lg border-2 border-dashed border-primary p-12">
+        <Upload className="h-12 w-12 text-primary" />
+        <p className="text-lg font-medium">{label}</p>
+      </div>
+    </div>
+  );
+};
+
+export default DropOverlay;
@@ -1,8 +1,9 @@
+import { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Image, LogOut, User } from "lucide-react";
+import { Image, LogOut, Search, User } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -10,15 +11,29 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import SearchCommand from "@/components/SearchCommand";
 
 interface HeaderProps {
   user: any;
 }
 
 const Header = ({ user }: HeaderProps) => {
+  const [searchOpen, setSearchOpen] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setSearchOpen((open) => !open);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) {
@@ -48,10 +63,25 @@ const Header = ({ user }: HeaderProps) => {
             <Button variant="ghost" asChild>
               <Link to="/albums">Álbuns</Link>
             </Button>
+            <Button variant="ghost" asChild>
+              <Link to="/trash">Lixeira</Link>
+            </Button>
           </nav>
         </div>
 
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            className="relative h-9 w-9 p-0 text-muted-foreground md:w-64 md:justify-start md:px-3"
+            onClick={() => setSearchOpen(true)}
+            aria-label="Buscar"
+          >
+            <Search className="h-4 w-4 md:mr-2" />
+            <span className="hidden md:inline">Buscar fotos e álbuns...</span>
+            <kbd className="pointer-events-none absolute right-2 hidden h-5 select-none items-center gap-1 rounded border bg-muted px-1.5 font-mono text-[10px] font-medium md:flex">
+              Ctrl K
+            </kbd>
+          </Button>
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" className="relative h-10 w-10 rounded-full">
@@ -78,6 +108,7 @@ const Header = ({ user }: HeaderProps) => {
           </DropdownMenu>
         </div>
       </div>
+      <SearchCommand open={searchOpen} onOpenChange={setSearchOpen} />
     </header>
   );
 };
@@ -0,0 +1,83 @@
+import { useEffect, useRef, useState } from "react";
+import { Pencil } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+interface InlineEditProps {
+  value: string | null;
+  placeholder: string;
+  onSave: (value: string | null) => void;
+  multiline?: boolean;
+  className?: string;
+  inputClassName?: string;
+}
+
+const InlineEdit = ({ value, placeholder, onSave, multiline, className, inputClassName }: InlineEditProps) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(value ?? "");
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!editing) setDraft(value ?? "");
+  }, [value, editing]);
+
+  useEffect(() => {
+    if (editing) inputRef.current?.select();
+  }, [editing]);
+
+  const commit = () => {
+    setEditing(false);
+    const next = draft.trim() || null;
+    if (next !== (value || null)) onSave(next);
+  };
+
+  const cancel = () => {
+    setDraft(value ?? "");
+    setEditing(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      cancel();
+    } else if (e.key === "Enter" && (!multiline || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      commit();
+    }
+  };
+
+  if (editing) {
+    const Field = multiline ? Textarea : Input;
+    return (
+      <Field
+        ref={inputRef}
+        value={draft}
+        onChange={(e: React.ChangeEvent<HTMLInputElement & HTMLTextAreaElement>) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        onClick={(e: React.MouseEvent) => e.stopPropagation()}
+        placeholder={placeholder}
+        rows={multiline ? 3 : undefined}
+        className={cn("text-foreground", inputClassName)}
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      className={cn("group/edit flex w-full items-start gap-2 text-left", className)}
+      onClick={(e) => {
+        e.stopPropagation();
+        setEditing(true);
+      }}
+      title="Clique para editar"
+    >
+      <span className={cn("min-w-0 flex-1 line-clamp-2", !value && "italic opacity-60")}>{value || placeholder}</span>
+      <Pencil className="mt-1 h-3 w-3 shrink-0 opacity-0 transition-opacity group-hover/edit:opacity-100" />
+    </button>
+  );
+};
+
+export default InlineEdit;
@@ -0,0 +1,112 @@
+import { ReactNode, useRef, useState } from "react";
+
+interface LassoAreaProps {
+  enabled: boolean;
+  onSelect: (ids: string[], additive: boolean) => void;
+  children: ReactNode;
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Movement below this many pixels is treated as a click, not a lasso.
+const DRAG_THRESHOLD = 5;
+
+const toRect = (a: { x: number; y: number }, b: { x: number; y: number }): Rect => ({
+  left: Math.min(a.x, b.x),
+  top: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+/**
+ * Lets the user drag a rectangle over children marked with `data-photo-id`
+ * to select them. Coordinates are page-relative so the page can scroll.
+ */
+const LassoArea = ({ enabled, onSelect, children }: LassoAreaProps) => {
+  const [rect, setRect] = useState<Rect | null>(null);
+  const start = useRef<{ x: number; y: number; additive: boolean } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragged = useRef(false);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!enabled || e.button !== 0 || (e.target as HTMLElement).closest("button, input, textarea")) return;
+    start.current = { x: e.pageX, y: e.pageY, additive: e.shiftKey || e.metaKey || e.ctrlKey };
+    dragged.current = false;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!start.current) return;
+    const point = { x: e.pageX, y: e.pageY };
+    if (!dragged.current && Math.hypot(point.x - start.current.x, point.y - start.current.y) < DRAG_THRESHOLD) {
+      return;
+    }
+    if (!dragged.current) {
+      dragged.current = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setRect(toRect(start.current, point));
+  };
+
+  const handlePointerUp = () => {
+    if (start.current && rect) {
+      const ids = Array.from(
+        containerRef.current?.querySelectorAll<HTMLElement>("[data-photo-id]") ?? []
+      )
+        .filter((node) => {
+          const box = node.getBoundingClientRect();
+          const left = box.left + window.scrollX;
+          const top = box.top + window.scrollY;
+          return (
+            left < rect.left + rect.width &&
+            left + box.width > rect.left &&
+            top < rect.top + rect.height &&
+            top + box.height > rect.top
+          );
+        })
+        .map((node) => node.dataset.photoId!);
+      onSelect(ids, start.current.additive);
+    }
+    start.current = null;
+    setRect(null);
+  };
+
+  // A finished lasso must not also count as a click on the tile it ended on.
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (dragged.current) {
+      e.stopPropagation();
+      dragged.current = false;
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={enabled ? "select-none" : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onClickCapture={handleClickCapture}
+    >
+      {children}
+      {rect && (
+        <div
+          className="pointer-events-none fixed z-30 border border-primary bg-primary/10"
+          style={{
+            left: rect.left - window.scrollX,
+            top: rect.top - window.scrollY,
+            width: rect.width,
+            height: rect.height,
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LassoArea;
@@ -0,0 +1,11 @@
+import { Image } from "lucide-react";
+
+/** Full-page placeholder shown while the session is being restored. */
+const LoadingScreen = () => (
+  <div className="min-h-screen flex flex-col items-center justify-center gap-3 bg-background">
+    <Image className="h-8 w-8 text-primary animate-pulse" />
+    <p className="text-muted-foreground">Carregando...</p>
+  </div>
+);
+
+export default LoadingScreen;
@@ -0,0 +1,219 @@
+import { format, parse } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { DateRange } from "react-day-picker";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarIcon, SlidersHorizontal, X } from "lucide-react";
+import {
+  countActiveFilters,
+  EMPTY_PHOTO_FILTERS,
+  fileTypeLabel,
+  ORIENTATION_OPTIONS,
+  PhotoFilters,
+  PhotoOrientation,
+} from "@/lib/photo-filters";
+
+// Radix Select does not allow an empty value, so "any" stands in for no filter.
+const ANY = "any";
+
+const toDate = (value: string | null) => (value ? parse(value, "yyyy-MM-dd", new Date()) : undefined);
+const fromDate = (date: Date | undefined) => (date ? format(date, "yyyy-MM-dd") : null);
+const dateLabel = (date: Date) => format(date, "dd MMM yyyy", { locale: ptBR });
+
+interface PhotoFilterSidebarProps {
+  filters: PhotoFilters;
+  onChange: (filters: PhotoFilters) => void;
+  /** Camera models present in the library. */
+  cameras: string[];
+  /** MIME types present in the library. */
+  fileTypes: string[];
+}
+
+const PhotoFilterSidebar = ({ filters, onChange, cameras, fileTypes }: PhotoFilterSidebarProps) => {
+  const range: DateRange | undefined =
+    filters.from || filters.to ? { from: toDate(filters.from), to: toDate(filters.to) } : undefined;
+  const active = countActiveFilters(filters);
+
+  const update = (patch: Partial<PhotoFilters>) => onChange({ ...filters, ...patch });
+
+  return (
+    <Sidebar className="top-16 h-[calc(100svh-4rem)]">
+      <SidebarHeader className="flex-row items-center justify-between border-b px-4 py-3">
+        <h2 className="font-semibold">Filtros</h2>
+        {active > 0 && (
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => onChange(EMPTY_PHOTO_FILTERS)}>
+            Limpar
+          </Button>
+        )}
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Data de captura</SidebarGroupLabel>
+          <SidebarGroupContent className="flex items-center gap-1">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="flex-1 justify-start gap-2 px-3 font-normal">
+                  <CalendarIcon className="h-4 w-4 shrink-0" />
+                  <span className="truncate">
+                    {range?.from
+                      ? range.to
+                        ? `${dateLabel(range.from)} – ${dateLabel(range.to)}`
+                        : `Desde ${dateLabel(range.from)}`
+                      : range?.to
+                        ? `Até ${dateLabel(range.to)}`
+                        : "Qualquer data"}
+                  </span>
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="range"
+                  locale={ptBR}
+                  selected={range}
+                  defaultMonth={range?.from ?? range?.to}
+                  onSelect={(next) => update({ from: fromDate(next?.from), to: fromDate(next?.to) })}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+            {range && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-9 w-9 shrink-0"
+                onClick={() => update({ from: null, to: null })}
+                aria-label="Limpar período"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Câmera</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <Select
+              value={filters.camera ?? ANY}
+              onValueChange={(value) => update({ camera: value === ANY ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Qualquer câmera</SelectItem>
+                {cameras.map((camera) => (
+                  <SelectItem key={camera} value={camera}>
+                    {camera}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Orientação</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              className="grid grid-cols-3"
+              value={filters.orientation ?? ""}
+              onValueChange={(value) => update({ orientation: (value as PhotoOrientation) || null })}
+            >
+              {ORIENTATION_OPTIONS.map((option) => (
+                <ToggleGroupItem key={option.value} value={option.value} className="text-xs">
+                  {option.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Tipo de arquivo</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <Select
+              value={filters.type ?? ANY}
+              onValueChange={(value) => update({ type: value === ANY ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Qualquer tipo</SelectItem>
+                {fileTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {fileTypeLabel(type)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>Organização</SidebarGroupLabel>
+          <SidebarGroupContent className="space-y-3 px-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="filter-unfiled"
+                checked={filters.unfiled}
+                onCheckedChange={(checked) => update({ unfiled: checked === true })}
+              />
+              <Label htmlFor="filter-unfiled" className="font-normal">
+                Fora de qualquer álbum
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="filter-untitled"
+                checked={filters.untitled}
+                onCheckedChange={(checked) => update({ untitled: checked === true })}
+              />
+              <Label htmlFor="filter-untitled" className="font-normal">
+                Sem título
+              </Label>
+            </div>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+/** Toolbar button that opens and closes the filter sidebar; must be rendered inside its `SidebarProvider`. */
+export const PhotoFilterTrigger = ({ count }: { count: number }) => {
+  const { toggleSidebar } = useSidebar();
+
+  return (
+    <Button variant={count > 0 ? "secondary" : "outline"} className="gap-2" onClick={toggleSidebar}>
+      <SlidersHorizontal className="h-4 w-4" />
+      Filtros
+      {count > 0 && (
+        <Badge variant="default" className="h-5 px-1.5">
+          {count}
+        </Badge>
+      )}
+    </Button>
+  );
+};
+
+export default PhotoFilterSidebar;
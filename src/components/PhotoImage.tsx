@@ -0,0 +1,38 @@
+import { ImgHTMLAttributes } from "react";
+import { getPhotoPath, getPhotoSrcSetPaths, PhotoSource, PhotoVariant } from "@/lib/thumbnails";
+import { useSignedUrls } from "@/hooks/use-signed-urls";
+
+interface PhotoImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, "src" | "srcSet"> {
+  photo: PhotoSource;
+  variant?: PhotoVariant;
+}
+
+const PhotoImage = ({
+  photo,
+  variant = "medium",
+  sizes = "(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw",
+  loading = "lazy",
+  ...props
+}: PhotoImageProps) => {
+  const srcPath = getPhotoPath(photo, variant);
+  const srcSetPaths = getPhotoSrcSetPaths(photo);
+  const urls = useSignedUrls([srcPath, ...srcSetPaths.map((entry) => entry.path)]);
+
+  const srcSet = srcSetPaths
+    .filter((entry) => urls[entry.path])
+    .map((entry) => `${urls[entry.path]} ${entry.width}w`)
+    .join(", ");
+
+  return (
+    <img
+      src={urls[srcPath]}
+      srcSet={srcSet || undefined}
+      sizes={sizes}
+      loading={loading}
+      decoding="async"
+      {...props}
+    />
+  );
+};
+
+export default PhotoImage;
@@ -0,0 +1,129 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Aperture, Calendar, Camera, MapPin, Maximize, Upload } from "lucide-react";
+import { Separator } from "@/components/ui/separator";
+import InlineEdit from "@/components/InlineEdit";
+import type { PhotoTextPatch } from "@/components/PhotoTile";
+import { formatExposure, orientationLabel } from "@/lib/exif";
+import type { Tables } from "@/integrations/supabase/types";
+
+interface PhotoInfoPanelProps {
+  photo: Pick<Tables<"photos">, "title" | "description" | "created_at">;
+  metadata: Tables<"photo_metadata"> | null;
+  loading?: boolean;
+  onUpdate?: (patch: PhotoTextPatch) => void;
+}
+
+const formatDate = (value: string) =>
+  format(new Date(value), "d 'de' MMMM 'de' yyyy, HH:mm", { locale: ptBR });
+
+const InfoRow = ({ icon: Icon, label, children }: {
+  icon: typeof Camera;
+  label: string;
+  children: React.ReactNode;
+}) => (
+  <div className="flex gap-3">
+    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+    <div className="min-w-0">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <div className="text-sm break-words">{children}</div>
+    </div>
+  </div>
+);
+
+const PhotoInfoPanel = ({ photo, metadata, loading, onUpdate }: PhotoInfoPanelProps) => {
+  const exposure = [
+    metadata?.f_number && `f/${metadata.f_number}`,
+    metadata?.exposure_time && formatExposure(metadata.exposure_time),
+    metadata?.iso && `ISO ${metadata.iso}`,
+    metadata?.focal_length && `${metadata.focal_length} mm`,
+  ].filter(Boolean);
+  const camera = [metadata?.camera_make, metadata?.camera_model].filter(Boolean).join(" ");
+
+  return (
+    <div className="space-y-4">
+      {onUpdate ? (
+        <div className="space-y-2">
+          <InlineEdit
+            value={photo.title}
+            placeholder="Adicionar título"
+            onSave={(title) => onUpdate({ title })}
+            className="text-lg font-semibold"
+          />
+          <InlineEdit
+            value={photo.description}
+            placeholder="Adicionar descrição"
+            onSave={(description) => onUpdate({ description })}
+            multiline
+            className="text-sm text-muted-foreground whitespace-pre-line"
+          />
+        </div>
+      ) : (
+        <div>
+          <h3 className="text-lg font-semibold">{photo.title || "Sem título"}</h3>
+          {photo.description && (
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{photo.description}</p>
+          )}
+        </div>
+      )}
+
+      <Separator />
+
+      {metadata?.taken_at && (
+        <InfoRow icon={Calendar} label="Capturada em">
+          {formatDate(metadata.taken_at)}
+        </InfoRow>
+      )}
+      <InfoRow icon={Upload} label="Enviada em">
+        {formatDate(photo.created_at)}
+      </InfoRow>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Carregando metadados...</p>
+      ) : !metadata ? (
+        <p className="text-sm text-muted-foreground">Nenhum metadado EXIF disponível</p>
+      ) : (
+        <>
+          {camera && (
+            <InfoRow icon={Camera} label="Câmera">
+              {camera}
+              {metadata.lens_model && (
+                <p className="text-muted-foreground">{metadata.lens_model}</p>
+              )}
+            </InfoRow>
+          )}
+          {exposure.length > 0 && (
+            <InfoRow icon={Aperture} label="Exposição">
+              {exposure.join(" · ")}
+            </InfoRow>
+          )}
+          {(!!metadata.width || !!metadata.orientation) && (
+            <InfoRow icon={Maximize} label="Dimensões">
+              {metadata.width && metadata.height && `${metadata.width} × ${metadata.height}`}
+              {metadata.orientation && (
+                <p className="text-muted-foreground">{orientationLabel[metadata.orientation]}</p>
+              )}
+            </InfoRow>
+          )}
+          {metadata.latitude !== null && metadata.longitude !== null && (
+            <InfoRow icon={MapPin} label="Localização">
+              <a
+                href={`https://www.openstreetmap.org/?mlat=${metadata.latitude}&mlon=${metadata.longitude}#map=15/${metadata.latitude}/${metadata.longitude}`}
+                target="_blank"
+                rel="noreferrer"
+                className="text-primary hover:underline"
+              >
+                {metadata.latitude.toFixed(5)}, {metadata.longitude.toFixed(5)}
+              </a>
+              {metadata.altitude !== null && (
+                <p className="text-muted-foreground">{Math.round(metadata.altitude)} m de altitude</p>
+              )}
+            </InfoRow>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhotoInfoPanel;
@@ -0,0 +1,133 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Info, Trash2 } from "lucide-react";
+import PhotoImage from "@/components/PhotoImage";
+import InlineEdit from "@/components/InlineEdit";
+import type { PhotoSource } from "@/lib/thumbnails";
+import type { Tag } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+export interface PhotoTileData extends PhotoSource {
+  id: string;
+  title: string | null;
+  description: string | null;
+  tags?: Tag[];
+}
+
+export type PhotoTextPatch = Partial<Pick<PhotoTileData, "title" | "description">>;
+
+// Further tags collapse into a "+N" chip.
+const MAX_TILE_TAGS = 3;
+
+interface PhotoTileProps {
+  photo: PhotoTileData;
+  selecting?: boolean;
+  selected?: boolean;
+  onOpen: () => void;
+  onToggleSelect?: (range: boolean) => void;
+  onUpdate?: (patch: PhotoTextPatch) => void;
+  onInfo?: () => void;
+  onDelete?: () => void;
+}
+
+const PhotoTile = ({
+  photo,
+  selecting,
+  selected,
+  onOpen,
+  onToggleSelect,
+  onUpdate,
+  onInfo,
+  onDelete,
+}: PhotoTileProps) => (
+  <div
+    className={cn(
+      "group relative aspect-square overflow-hidden rounded-lg bg-muted shadow-soft hover:shadow-hover transition-all cursor-pointer",
+      selected && "ring-4 ring-primary ring-offset-2 ring-offset-background"
+    )}
+    data-photo-id={photo.id}
+    onClick={(e) => {
+      // Modifier clicks start a selection even outside selection mode.
+      if (onToggleSelect && (selecting || e.shiftKey || e.metaKey || e.ctrlKey)) {
+        onToggleSelect(e.shiftKey);
+      } else {
+        onOpen();
+      }
+    }}
+  >
+    <PhotoImage
+      photo={photo}
+      alt={photo.title || "Foto"}
+      draggable={!selecting}
+      className="w-full h-full object-cover transition-transform group-hover:scale-105"
+    />
+    {photo.tags && photo.tags.length > 0 && (
+      <div className="pointer-events-none absolute top-2 left-10 right-2 flex flex-wrap justify-end gap-1">
+        {photo.tags.slice(0, MAX_TILE_TAGS).map((tag) => (
+          <Badge key={tag.id} variant="secondary" className="bg-background/80 backdrop-blur-sm">
+            {tag.name}
+          </Badge>
+        ))}
+        {photo.tags.length > MAX_TILE_TAGS && (
+          <Badge variant="secondary" className="bg-background/80 backdrop-blur-sm">
+            +{photo.tags.length - MAX_TILE_TAGS}
+          </Badge>
+        )}
+      </div>
+    )}
+    {selecting && (
+      <div className="absolute top-2 left-2">
+        <Checkbox checked={selected} className="bg-background" />
+      </div>
+    )}
+    {!selecting && (
+      <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+        <div className="absolute bottom-0 left-0 right-0 p-4 space-y-1">
+          {onUpdate ? (
+            <>
+              <InlineEdit
+                value={photo.title}
+                placeholder="Adicionar título"
+                onSave={(title) => onUpdate({ title })}
+                className="text-white font-medium"
+              />
+              <InlineEdit
+                value={photo.description}
+                placeholder="Adicionar descrição"
+                onSave={(description) => onUpdate({ description })}
+                multiline
+                className="text-white/80 text-sm"
+              />
+            </>
+          ) : (
+            <>
+              {photo.title && (
+                <h3 className="text-white font-medium line-clamp-1">{photo.title}</h3>
+              )}
+              {photo.description && (
+                <p className="text-white/80 text-sm line-clamp-2">{photo.description}</p>
+              )}
+            </>
+          )}
+          <div className="flex gap-2 pt-2" onClick={(e) => e.stopPropagation()}>
+            {onInfo && (
+              <Button size="sm" variant="secondary" className="gap-2" onClick={onInfo}>
+                <Info className="h-3 w-3" />
+                Info
+              </Button>
+            )}
+            {onDelete && (
+              <Button size="sm" variant="destructive" className="gap-2" onClick={onDelete}>
+                <Trash2 className="h-3 w-3" />
+                Excluir
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default PhotoTile;
@@ -0,0 +1,26 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import LoadingScreen from "@/components/LoadingScreen";
+import { useAuth } from "@/hooks/use-auth";
+import { RealtimeProvider } from "@/hooks/use-realtime";
+
+/**
+ * Renders the nested routes only for a signed-in user, kept in sync with their
+ * other devices. Anyone else is sent to the login page, which brings them back
+ * to the URL they asked for.
+ */
+const RequireAuth = () => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) return <LoadingScreen />;
+
+  if (!user) return <Navigate to="/auth" state={{ from: location }} replace />;
+
+  return (
+    <RealtimeProvider userId={user.id}>
+      <Outlet />
+    </RealtimeProvider>
+  );
+};
+
+export default RequireAuth;
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { FolderOpen } from "lucide-react";
+import PhotoImage from "@/components/PhotoImage";
+import { useSearch } from "@/hooks/use-search";
+import { highlightMatches } from "@/lib/search";
+
+interface SearchCommandProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const Highlighted = ({ text, query }: { text: string; query: string }) => (
+  <>
+    {highlightMatches(text, query).map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="rounded-sm bg-primary/20 text-foreground">
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      )
+    )}
+  </>
+);
+
+const SearchCommand = ({ open, onOpenChange }: SearchCommandProps) => {
+  const [query, setQuery] = useState("");
+  const { results, loading, error } = useSearch(query);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  const go = (path: string) => {
+    onOpenChange(false);
+    navigate(path);
+  };
+
+  const empty = results.photos.length === 0 && results.albums.length === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Buscar</DialogTitle>
+        {/* Results come ranked from the database, so cmdk's own filtering is off. */}
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+          <CommandInput
+            placeholder="Buscar por título, descrição, tag ou álbum..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList className="max-h-[60vh]">
+            {query.trim() && empty && (
+              <CommandEmpty>{loading ? "Buscando..." : error || "Nenhum resultado encontrado."}</CommandEmpty>
+            )}
+            {results.albums.length > 0 && (
+              <CommandGroup heading="Álbuns">
+                {results.albums.map((album) => (
+                  <CommandItem key={album.id} value={`album-${album.id}`} onSelect={() => go(`/album/${album.id}`)}>
+                    <FolderOpen className="mr-3 h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">
+                        <Highlighted text={album.name} query={query} />
+                      </p>
+                      {album.description && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          <Highlighted text={album.description} query={query} />
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {results.photos.length > 0 && (
+              <CommandGroup heading="Fotos">
+                {results.photos.map((photo) => (
+                  <CommandItem key={photo.id} value={`photo-${photo.id}`} onSelect={() => go(`/photo/${photo.id}`)}>
+                    <PhotoImage
+                      photo={photo}
+                      variant="small"
+                      sizes="40px"
+                      alt={photo.title || "Foto"}
+                      className="mr-3 h-10 w-10 shrink-0 rounded bg-muted object-cover"
+                    />
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">
+                        {photo.title ? <Highlighted text={photo.title} query={query} /> : "Sem título"}
+                      </p>
+                      {photo.description && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          <Highlighted text={photo.description} query={query} />
+                        </p>
+                      )}
+                      {photo.tags.length > 0 && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          {photo.tags.map((tag, i) => (
+                            <span key={tag}>
+                              {i > 0 && ", "}#<Highlighted text={tag} query={query} />
+                            </span>
+                          ))}
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchCommand;
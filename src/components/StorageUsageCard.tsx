@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, parse } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Progress } from "@/components/ui/progress";
+import PhotoImage from "@/components/PhotoImage";
+import { formatBytes, StorageUsage } from "@/lib/storage-usage";
+
+const chartConfig = {
+  bytes: {
+    label: "Armazenamento",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const monthLabel = (month: string) => format(parse(month, "yyyy-MM", new Date()), "MMM yy", { locale: ptBR });
+
+const StorageUsageCard = () => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.rpc("get_storage_usage").then(({ data, error }) => {
+      if (error) setError(error.message);
+      else setUsage(data as unknown as StorageUsage);
+    });
+  }, []);
+
+  const percent = usage && usage.quota_bytes > 0 ? Math.min(100, (usage.used_bytes / usage.quota_bytes) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Armazenamento</CardTitle>
+        <CardDescription>
+          {usage
+            ? `${formatBytes(usage.used_bytes)} de ${formatBytes(usage.quota_bytes)} usados`
+            : error || "Carregando uso..."}
+        </CardDescription>
+      </CardHeader>
+      {usage && (
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Progress
+              value={percent}
+              className={percent >= 90 ? "h-2 [&>div]:bg-destructive" : "h-2"}
+              aria-label="Espaço usado"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>
+                {usage.photo_count} {usage.photo_count === 1 ? "foto" : "fotos"}
+                {usage.trash_bytes > 0 && ` · ${formatBytes(usage.trash_bytes)} na lixeira`}
+              </span>
+              <span>{formatBytes(Math.max(0, usage.quota_bytes - usage.used_bytes))} livres</span>
+            </div>
+          </div>
+
+          {usage.by_month.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Por mês da foto</h3>
+              <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+                <BarChart data={usage.by_month} margin={{ left: 0, right: 0 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={monthLabel} />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => monthLabel(payload[0]?.payload.month)}
+                        formatter={(value, _, item) => (
+                          <span>
+                            {formatBytes(Number(value))} · {item.payload.photos}{" "}
+                            {item.payload.photos === 1 ? "foto" : "fotos"}
+                          </span>
+                        )}
+                      />
+                    }
+                  />
+                  <Bar dataKey="bytes" fill="var(--color-bytes)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+          )}
+
+          {usage.largest.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Maiores arquivos</h3>
+              <ul className="space-y-2">
+                {usage.largest.map((photo) => (
+                  <li key={photo.id}>
+                    <Link
+                      to={`/photo/${photo.id}`}
+                      className="flex items-center gap-3 rounded-md p-1 hover:bg-muted/50 transition-colors"
+                    >
+                      <PhotoImage
+                        photo={photo}
+                        variant="small"
+                        sizes="40px"
+                        alt={photo.title || "Foto"}
+                        className="h-10 w-10 rounded object-cover bg-muted"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm truncate">{photo.title || "Sem título"}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[photo.mime_type, photo.width && photo.height ? `${photo.width}×${photo.height}` : null]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </p>
+                      </div>
+                      <span className="text-sm text-muted-foreground shrink-0">{formatBytes(photo.size_bytes ?? 0)}</span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
+
+export default StorageUsageCard;
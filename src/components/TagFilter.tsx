@@ -0,0 +1,76 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Check, Tags } from "lucide-react";
+import { Tag, TAG_FILTER_MODE_OPTIONS, TagFilterMode } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface TagFilterProps {
+  tags: Tag[];
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  mode: TagFilterMode;
+  onModeChange: (mode: TagFilterMode) => void;
+}
+
+const TagFilter = ({ tags, value, onChange, mode, onModeChange }: TagFilterProps) => {
+  const selected = new Set(value);
+
+  const toggle = (tagId: string) =>
+    onChange(selected.has(tagId) ? value.filter((id) => id !== tagId) : [...value, tagId]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={value.length > 0 ? "secondary" : "outline"} className="gap-2">
+          <Tags className="h-4 w-4" />
+          Tags
+          {value.length > 0 && (
+            <Badge variant="default" className="h-5 px-1.5">
+              {value.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="end">
+        <div className="flex items-center justify-between gap-2 border-b p-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(next) => next && onModeChange(next as TagFilterMode)}
+          >
+            {TAG_FILTER_MODE_OPTIONS.map((option) => (
+              <ToggleGroupItem key={option.value} value={option.value} className="text-xs">
+                {option.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          {value.length > 0 && (
+            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => onChange([])}>
+              Limpar
+            </Button>
+          )}
+        </div>
+        <Command>
+          <CommandInput placeholder="Buscar tag..." />
+          <CommandList>
+            <CommandEmpty>{tags.length === 0 ? "Nenhuma tag ainda." : "Nenhuma tag encontrada."}</CommandEmpty>
+            <CommandGroup>
+              {tags.map((tag) => (
+                <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                  <Check className={cn("mr-2 h-4 w-4", selected.has(tag.id) ? "opacity-100" : "opacity-0")} />
+                  {tag.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TagFilter;
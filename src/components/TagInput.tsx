@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Plus, Tag as TagIcon, X } from "lucide-react";
+import { MAX_TAG_LENGTH, normalizeTagName, sortTags, Tag } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+interface TagInputProps {
+  /** Every tag the user has, offered as suggestions. */
+  tags: Tag[];
+  value: Tag[];
+  onChange: (value: Tag[]) => void;
+  onCreate: (name: string) => Promise<Tag | null>;
+  disabled?: boolean;
+  className?: string;
+}
+
+const TagInput = ({ tags, value, onChange, onCreate, disabled, className }: TagInputProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const selectedIds = new Set(value.map((tag) => tag.id));
+  const suggestions = tags.filter((tag) => !selectedIds.has(tag.id));
+  const name = normalizeTagName(search).slice(0, MAX_TAG_LENGTH);
+  const exists = tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase());
+
+  const add = (tag: Tag) => {
+    if (!selectedIds.has(tag.id)) onChange(sortTags([...value, tag]));
+    setSearch("");
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const tag = await onCreate(name);
+    setCreating(false);
+    if (tag) add(tag);
+  };
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1.5", className)}>
+      {value.map((tag) => (
+        <Badge key={tag.id} variant="secondary" className="gap-1 pr-1">
+          {tag.name}
+          {!disabled && (
+            <button
+              type="button"
+              className="rounded-full p-0.5 hover:bg-background/60"
+              onClick={() => onChange(value.filter((t) => t.id !== tag.id))}
+              aria-label={`Remover tag ${tag.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+      {!disabled && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button type="button" size="sm" variant="outline" className="h-6 gap-1 rounded-full px-2 text-xs">
+              <Plus className="h-3 w-3" />
+              Tag
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-64 p-0" align="start">
+            <Command>
+              <CommandInput
+                placeholder="Buscar ou criar tag..."
+                value={search}
+                onValueChange={setSearch}
+                maxLength={MAX_TAG_LENGTH}
+              />
+              <CommandList>
+                <CommandEmpty>{name ? "Nenhuma tag encontrada." : "Nenhuma tag ainda."}</CommandEmpty>
+                {suggestions.length > 0 && (
+                  <CommandGroup>
+                    {suggestions.map((tag) => (
+                      <CommandItem key={tag.id} value={tag.name} onSelect={() => add(tag)}>
+                        <TagIcon className="mr-2 h-4 w-4" />
+                        {tag.name}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+                {name && !exists && (
+                  <CommandGroup forceMount>
+                    <CommandItem forceMount value={`create:${name}`} disabled={creating} onSelect={handleCreate}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Criar “{name}”
+                    </CommandItem>
+                  </CommandGroup>
+                )}
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
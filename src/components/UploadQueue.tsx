@@ -0,0 +1,90 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2, Copy, RotateCw, X, AlertCircle } from "lucide-react";
+import type { UploadItem } from "@/hooks/use-upload-queue";
+
+interface UploadQueueProps {
+  items: UploadItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClear: () => void;
+}
+
+const statusLabel: Record<UploadItem["status"], string> = {
+  pending: "Na fila",
+  uploading: "Enviando",
+  saving: "Salvando",
+  done: "Concluído",
+  error: "Erro",
+  canceled: "Cancelado",
+  duplicate: "Já existe na biblioteca",
+};
+
+const UploadQueue = ({ items, onCancel, onRetry, onClear }: UploadQueueProps) => {
+  if (items.length === 0) return null;
+
+  const finished = items.filter((item) => item.status === "done" || item.status === "duplicate").length;
+  const busy = items.some((item) => item.status === "pending" || item.status === "uploading" || item.status === "saving");
+
+  return (
+    <Card className="fixed bottom-4 right-4 z-50 w-80 shadow-hover">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 p-4 pb-2">
+        <CardTitle className="text-sm font-medium">
+          Enviando fotos ({finished}/{items.length})
+        </CardTitle>
+        {!busy && (
+          <Button size="icon" variant="ghost" className="h-6 w-6" onClick={onClear}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        <ul className="max-h-64 space-y-3 overflow-y-auto pr-1">
+          {items.map((item) => (
+            <li key={item.id} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm truncate" title={item.file.name}>
+                  {item.file.name}
+                </span>
+                <div className="flex items-center gap-1 shrink-0">
+                  {item.status === "done" && <CheckCircle2 className="h-4 w-4 text-primary" />}
+                  {item.status === "duplicate" && <Copy className="h-4 w-4 text-muted-foreground" />}
+                  {item.status === "error" && <AlertCircle className="h-4 w-4 text-destructive" />}
+                  {(item.status === "error" || item.status === "canceled") && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      title="Tentar novamente"
+                      onClick={() => onRetry(item.id)}
+                    >
+                      <RotateCw className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {(item.status === "pending" || item.status === "uploading") && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      title="Cancelar"
+                      onClick={() => onCancel(item.id)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <Progress value={item.progress} className="h-1.5" />
+              <p className="text-xs text-muted-foreground truncate">
+                {item.status === "error" && item.error ? item.error : statusLabel[item.status]}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UploadQueue;
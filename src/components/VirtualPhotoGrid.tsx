@@ -0,0 +1,128 @@
+import { ReactNode, useEffect, useMemo, useRef, useState } from "react";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import { groupPhotosByDate, PhotoSort } from "@/lib/photo-groups";
+
+interface GridPhoto {
+  id: string;
+  taken_at: string;
+  created_at: string;
+  title: string | null;
+}
+
+type GridRow<T> = { key: string; month?: string } & (
+  | { kind: "month"; label: string }
+  | { kind: "day"; label: string }
+  | { kind: "photos"; photos: T[] }
+);
+
+interface VirtualPhotoGridProps<T extends GridPhoto> {
+  /** Already sorted. */
+  photos: T[];
+  sort: PhotoSort;
+  renderPhoto: (photo: T) => ReactNode;
+  /** Called when the last row comes close to the viewport. */
+  onReachEnd?: () => void;
+}
+
+const GAP = 16;
+const MIN_TILE_SIZE = 220;
+const MAX_COLUMNS = 4;
+const MONTH_ROW_SIZE = 60;
+const MONTH_SPACING = 24;
+const DAY_ROW_SIZE = 32;
+// Height of the sticky page header the month label slides under.
+const HEADER_OFFSET = 64;
+
+const chunk = <T,>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+/**
+ * Photo grid that only mounts the rows near the viewport, so the library
+ * stays responsive with tens of thousands of photos. Date sorts keep the
+ * month and day headings, with the current month pinned under the header.
+ */
+const VirtualPhotoGrid = <T extends GridPhoto>({ photos, sort, renderPhoto, onReachEnd }: VirtualPhotoGridProps<T>) => {
+  const [width, setWidth] = useState(0);
+  const onReachEndRef = useRef(onReachEnd);
+  onReachEndRef.current = onReachEnd;
+
+  const columns = Math.max(1, Math.min(MAX_COLUMNS, Math.floor((width + GAP) / (MIN_TILE_SIZE + GAP))));
+  const tileSize = width > 0 ? (width - GAP * (columns - 1)) / columns : MIN_TILE_SIZE;
+
+  const { rows, sizes } = useMemo(() => {
+    const rows: GridRow<T>[] = [];
+    const sizes: number[] = [];
+    const addPhotos = (items: T[], month?: string) =>
+      chunk(items, columns).forEach((rowPhotos) => {
+        rows.push({ kind: "photos", key: rowPhotos[0].id, photos: rowPhotos, month });
+        sizes.push(tileSize + GAP);
+      });
+
+    if (sort === "title") {
+      addPhotos(photos);
+    } else {
+      groupPhotosByDate(photos, sort).forEach((month, i) => {
+        rows.push({ kind: "month", key: month.key, label: month.label, month: month.label });
+        sizes.push(MONTH_ROW_SIZE + (i > 0 ? MONTH_SPACING : 0));
+        month.days.forEach((day) => {
+          rows.push({ kind: "day", key: day.key, label: day.label, month: month.label });
+          sizes.push(DAY_ROW_SIZE);
+          addPhotos(day.photos, month.label);
+        });
+      });
+    }
+    return { rows, sizes };
+  }, [photos, sort, columns, tileSize]);
+
+  const virtual = useVirtualRows({ sizes, stickyOffset: HEADER_OFFSET });
+  const { containerRef, reachedEnd } = virtual;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  useEffect(() => {
+    if (reachedEnd) onReachEndRef.current?.();
+  }, [reachedEnd, photos.length]);
+
+  return (
+    <>
+      {sort !== "title" && (
+        // Zero height so the pinned label overlays the rows instead of pushing them down.
+        <div className="sticky top-16 z-10 h-0">
+          <h2 className="bg-background/95 py-2 text-xl font-semibold backdrop-blur">
+            {rows[virtual.currentIndex]?.month}
+          </h2>
+        </div>
+      )}
+      <div ref={containerRef} className="relative" style={{ height: virtual.totalSize }}>
+        {virtual.rows.map(({ index, start, size }) => {
+          const row = rows[index];
+          return (
+            <div
+              key={`${row.kind}-${row.key}`}
+              className="absolute inset-x-0"
+              style={{ top: start, height: size }}
+            >
+              {row.kind === "month" ? (
+                <h2 className="absolute inset-x-0 bottom-4 py-2 text-xl font-semibold">{row.label}</h2>
+              ) : row.kind === "day" ? (
+                <h3 className="text-sm font-medium text-muted-foreground">{row.label}</h3>
+              ) : (
+                <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+                  {row.photos.map(renderPhoto)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
+
+export default VirtualPhotoGrid;
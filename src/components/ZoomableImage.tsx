@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from "react";
+import PhotoImage from "@/components/PhotoImage";
+import type { PhotoSource } from "@/lib/thumbnails";
+
+interface ZoomableImageProps {
+  photo: PhotoSource;
+  alt: string;
+  active: boolean;
+  onZoomChange?: (zoomed: boolean) => void;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const distance = (a: PointerEvent | React.PointerEvent, b: PointerEvent | React.PointerEvent) =>
+  Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+
+const ZoomableImage = ({ photo, alt, active, onZoomChange }: ZoomableImageProps) => {
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, React.PointerEvent>());
+  const pinchStart = useRef<{ distance: number; scale: number } | null>(null);
+  const scaleRef = useRef(scale);
+
+  scaleRef.current = scale;
+
+  const applyScale = (next: number) => {
+    const clamped = clamp(next, MIN_SCALE, MAX_SCALE);
+    setScale(clamped);
+    if (clamped === MIN_SCALE) setOffset({ x: 0, y: 0 });
+  };
+
+  useEffect(() => {
+    if (active) onZoomChange?.(scale > MIN_SCALE);
+  }, [active, scale, onZoomChange]);
+
+  useEffect(() => {
+    if (!active) {
+      setScale(MIN_SCALE);
+      setOffset({ x: 0, y: 0 });
+    }
+  }, [active]);
+
+  // React registers wheel listeners as passive, which would not allow
+  // preventDefault to stop the page from scrolling while zooming.
+  useEffect(() => {
+    const node = containerRef.current;
+    if (!node) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const next = clamp(scaleRef.current * Math.exp(-e.deltaY * 0.002), MIN_SCALE, MAX_SCALE);
+      setScale(next);
+      if (next === MIN_SCALE) setOffset({ x: 0, y: 0 });
+    };
+
+    node.addEventListener("wheel", handleWheel, { passive: false });
+    return () => node.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointers.current.set(e.pointerId, e);
+    if (pointers.current.size === 2) {
+      const [a, b] = Array.from(pointers.current.values());
+      pinchStart.current = { distance: distance(a, b), scale };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    pointers.current.set(e.pointerId, e);
+
+    if (pointers.current.size === 2 && pinchStart.current) {
+      const [a, b] = Array.from(pointers.current.values());
+      applyScale(pinchStart.current.scale * (distance(a, b) / pinchStart.current.distance));
+    } else if (pointers.current.size === 1 && scale > MIN_SCALE) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setOffset((prev) => ({
+        x: prev.x + (e.clientX - previous.clientX) / scale,
+        y: prev.y + (e.clientY - previous.clientY) / scale,
+      }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) pinchStart.current = null;
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="flex h-full w-full items-center justify-center overflow-hidden touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => applyScale(scale > MIN_SCALE ? MIN_SCALE : 2.5)}
+      style={{ cursor: scale > MIN_SCALE ? "grab" : "zoom-in" }}
+    >
+      <PhotoImage
+        photo={photo}
+        variant="large"
+        sizes="100vw"
+        loading="eager"
+        alt={alt}
+        draggable={false}
+        className="max-h-full max-w-full object-contain transition-transform duration-75"
+        style={{ transform: `scale(${scale}) translate(${offset.x}px, ${offset.y}px)` }}
+      />
+    </div>
+  );
+};
+
+export default ZoomableImage;
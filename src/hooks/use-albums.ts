@@ -0,0 +1,308 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { AlbumSettings } from "@/components/AlbumSettingsSheet";
+import { updateCachedPhotos } from "@/hooks/use-photos";
+import type { AlbumCoverPhoto } from "@/lib/album-cover";
+import { AlbumRole } from "@/lib/album-roles";
+import { queryKeys } from "@/lib/query-keys";
+
+// Enough photos for a mosaic cover.
+const COVER_PHOTO_LIMIT = 4;
+
+const COVER_PHOTO_COLUMNS = "id, path, small_path, medium_path, large_path, small_width, medium_width, large_width";
+
+export interface AlbumListItem extends Tables<"albums"> {
+  /** The newest few, for the cover, followed by the chosen cover photo when it is older. */
+  photos: AlbumCoverPhoto[];
+}
+
+export interface AlbumPhotoSource {
+  id: string;
+  user_id: string;
+  path: string;
+  title: string | null;
+  description: string | null;
+  taken_at: string;
+  created_at: string;
+  small_path: string | null;
+  medium_path: string | null;
+  large_path: string | null;
+  small_width: number | null;
+  medium_width: number | null;
+  large_width: number | null;
+}
+
+export interface AlbumWithRole {
+  album: Omit<Tables<"albums">, "photo_count">;
+  role: AlbumRole;
+}
+
+export interface AlbumPhoto extends AlbumPhotoSource {
+  position: number;
+  added_at: string;
+}
+
+/** Albums the user owns or that are shared with them; RLS decides what comes back. */
+export function useAlbums(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.albums.list(),
+    enabled,
+    queryFn: async (): Promise<AlbumListItem[]> => {
+      const { data, error } = await supabase
+        .from("albums")
+        .select(`
+          *,
+          photo_count,
+          cover_photo:photos!albums_cover_photo_id_fkey(${COVER_PHOTO_COLUMNS}),
+          album_photos(photos!inner(${COVER_PHOTO_COLUMNS}))
+        `)
+        .order("created_at", { ascending: false })
+        .order("added_at", { referencedTable: "album_photos", ascending: false })
+        .limit(COVER_PHOTO_LIMIT, { referencedTable: "album_photos" });
+      if (error) throw error;
+
+      return data.map(({ album_photos, cover_photo, ...album }) => {
+        const photos = album_photos.map((albumPhoto) => albumPhoto.photos);
+        return {
+          ...album,
+          photos: cover_photo && !photos.some((photo) => photo.id === cover_photo.id) ? [...photos, cover_photo] : photos,
+        };
+      });
+    },
+  });
+}
+
+/** Ids of the albums the user can see, without their photos. */
+/** Albums other users share with `userId`; the user's own albums are left out. */
+export function useSharedAlbumIds(userId: string) {
+  return useQuery({
+    queryKey: queryKeys.albums.sharedIds(userId),
+    queryFn: async () => {
+      const { data, error } = await supabase.from("albums").select("id").neq("user_id", userId);
+      if (error) throw error;
+      return data.map((album) => album.id);
+    },
+  });
+}
+
+export function useCreateAlbum() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (album: { userId: string; name: string; description?: string | null }) => {
+      const { data, error } = await supabase
+        .from("albums")
+        .insert({ user_id: album.userId, name: album.name, description: album.description || null })
+        .select("id, name")
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.albums.list() }),
+  });
+}
+
+/** Moves an album to the trash, taking it out of the cached list right away. */
+export function useTrashAlbum() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (albumId: string) => {
+      const { error } = await supabase.rpc("trash_albums", { album_ids: [albumId] });
+      if (error) throw error;
+    },
+    onMutate: async (albumId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.albums.list() });
+      const previous = queryClient.getQueryData<AlbumListItem[]>(queryKeys.albums.list());
+      queryClient.setQueryData<AlbumListItem[]>(queryKeys.albums.list(), (albums) =>
+        albums?.filter((album) => album.id !== albumId)
+      );
+      return { previous };
+    },
+    onError: (_error, _albumId, context) => {
+      queryClient.setQueryData(queryKeys.albums.list(), context?.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.albums.list() }),
+  });
+}
+
+export function useRestoreAlbums() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (albumIds: string[]) => {
+      const { error } = await supabase.rpc("restore_albums", { album_ids: albumIds });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.albums.list() }),
+  });
+}
+
+/** An album the user can see, with their role in it. */
+export function useAlbum(albumId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.albums.detail(albumId ?? ""),
+    enabled: enabled && !!albumId,
+    queryFn: async (): Promise<AlbumWithRole> => {
+      const [{ data: album, error }, { data: role, error: roleError }] = await Promise.all([
+        supabase.from("albums").select("*").eq("id", albumId).single(),
+        supabase.rpc("album_role", { target_album_id: albumId }),
+      ]);
+      if (error) throw error;
+      if (roleError) throw roleError;
+      return { album, role: role as AlbumRole };
+    },
+    // A missing or forbidden album will not appear by retrying.
+    retry: false,
+  });
+}
+
+export function useAlbumPhotos(albumId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.albums.photos(albumId ?? ""),
+    enabled: enabled && !!albumId,
+    queryFn: async (): Promise<AlbumPhoto[]> => {
+      const { data, error } = await supabase
+        .from("album_photos")
+        .select(
+          "position, added_at, photos(id, user_id, path, title, description, taken_at, created_at, small_path, medium_path, large_path, small_width, medium_width, large_width)"
+        )
+        .eq("album_id", albumId)
+        .order("position", { ascending: true });
+      if (error) throw error;
+
+      return data
+        .filter((albumPhoto) => albumPhoto.photos)
+        .map((albumPhoto) => ({ ...albumPhoto.photos, position: albumPhoto.position, added_at: albumPhoto.added_at }));
+    },
+  });
+}
+
+export function useUpdateAlbum(albumId: string) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.albums.detail(albumId);
+
+  return useMutation({
+    mutationFn: async (patch: Partial<AlbumSettings>) => {
+      const { error } = await supabase.from("albums").update(patch).eq("id", albumId);
+      if (error) throw error;
+    },
+    onMutate: async (patch) => {
+      await queryClient.cancelQueries({ queryKey, exact: true });
+      const previous = queryClient.getQueryData<AlbumWithRole>(queryKey);
+      queryClient.setQueryData<AlbumWithRole>(queryKey, (detail) =>
+        detail ? { ...detail, album: { ...detail.album, ...patch } } : detail
+      );
+      return { previous };
+    },
+    onError: (_error, _patch, context) => queryClient.setQueryData(queryKey, context?.previous),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.albums.list() }),
+  });
+}
+
+/**
+ * Adds photos to an album. They show up at the end of a cached album right
+ * away, and already added photos are skipped instead of failing the batch.
+ */
+export function useAddPhotosToAlbum() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ albumId, photos }: { albumId: string; photos: AlbumPhotoSource[] }) => {
+      const { error } = await supabase
+        .from("album_photos")
+        .upsert(
+          photos.map((photo) => ({ album_id: albumId, photo_id: photo.id })),
+          { onConflict: "album_id,photo_id", ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    },
+    onMutate: async ({ albumId, photos }) => {
+      const queryKey = queryKeys.albums.photos(albumId);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<AlbumPhoto[]>(queryKey);
+      // Photos already in the album are skipped by the upsert and keep their count.
+      const present = new Set(previous?.map((photo) => photo.id));
+      const added = new Set(photos.map((photo) => photo.id).filter((id) => !present.has(id)));
+
+      queryClient.setQueryData<AlbumPhoto[]>(queryKey, (albumPhotos) => {
+        if (!albumPhotos) return albumPhotos;
+        let position = Math.max(0, ...albumPhotos.map((photo) => photo.position));
+        const addedAt = new Date().toISOString();
+        return [
+          ...albumPhotos,
+          ...photos
+            .filter((photo) => added.has(photo.id))
+            .map((photo) => ({ ...photo, position: ++position, added_at: addedAt })),
+        ];
+      });
+      updateCachedPhotos(queryClient, (photo) =>
+        added.has(photo.id) ? { ...photo, album_count: photo.album_count + 1 } : photo
+      );
+      return { previous, added };
+    },
+    onError: (_error, { albumId }, context) => {
+      queryClient.setQueryData(queryKeys.albums.photos(albumId), context?.previous);
+      updateCachedPhotos(queryClient, (photo) =>
+        context?.added.has(photo.id) ? { ...photo, album_count: Math.max(0, photo.album_count - 1) } : photo
+      );
+    },
+    onSettled: (_data, _error, { albumId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.photos(albumId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.list() });
+    },
+  });
+}
+
+export function useRemoveAlbumPhoto() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ albumId, photoId }: { albumId: string; photoId: string }) => {
+      const { error } = await supabase.from("album_photos").delete().eq("album_id", albumId).eq("photo_id", photoId);
+      if (error) throw error;
+    },
+    onMutate: async ({ albumId, photoId }) => {
+      const queryKey = queryKeys.albums.photos(albumId);
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<AlbumPhoto[]>(queryKey);
+      queryClient.setQueryData<AlbumPhoto[]>(queryKey, (albumPhotos) =>
+        albumPhotos?.filter((photo) => photo.id !== photoId)
+      );
+      updateCachedPhotos(queryClient, (photo) =>
+        photo.id === photoId ? { ...photo, album_count: Math.max(0, photo.album_count - 1) } : photo
+      );
+      return { previous };
+    },
+    onError: (_error, { albumId, photoId }, context) => {
+      queryClient.setQueryData(queryKeys.albums.photos(albumId), context?.previous);
+      updateCachedPhotos(queryClient, (photo) =>
+        photo.id === photoId ? { ...photo, album_count: photo.album_count + 1 } : photo
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.albums.list() }),
+  });
+}
+
+export function useReorderAlbumPhotos(albumId: string) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.albums.photos(albumId);
+
+  return useMutation({
+    mutationFn: async (photoIds: string[]) => {
+      const { error } = await supabase.rpc("reorder_album_photos", { target_album_id: albumId, photo_ids: photoIds });
+      if (error) throw error;
+    },
+    onMutate: async (photoIds) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<AlbumPhoto[]>(queryKey);
+      const positions = new Map(photoIds.map((photoId, i) => [photoId, i + 1]));
+      queryClient.setQueryData<AlbumPhoto[]>(queryKey, (albumPhotos) =>
+        albumPhotos?.map((photo) => ({ ...photo, position: positions.get(photo.id) ?? photo.position }))
+      );
+      return { previous };
+    },
+    onError: (_error, _photoIds, context) => queryClient.setQueryData(queryKey, context?.previous),
+  });
+}
@@ -0,0 +1,55 @@
+import { createContext, ReactNode, useContext, useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+interface AuthState {
+  user: User | null;
+  /** True until the stored session has been read. */
+  loading: boolean;
+  /** Signed in by a password reset link and the new password is not chosen yet. */
+  recovering: boolean;
+}
+
+const AuthContext = createContext<AuthState | null>(null);
+
+// Read on load, before the client takes the token out of the URL; the
+// PASSWORD_RECOVERY event can fire before the provider subscribes.
+const openedFromRecoveryLink = new URLSearchParams(window.location.hash.slice(1)).get("type") === "recovery";
+
+/** Tracks the signed-in user once for the whole app. */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<AuthState>({ user: null, loading: true, recovering: false });
+  const pendingRecovery = useRef(openedFromRecoveryLink);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    // Fires INITIAL_SESSION right away with the stored session, so there is no
+    // separate getSession call.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // A refreshed token is the same user; keeping the object avoids
+      // re-running everything that depends on it.
+      if (event === "TOKEN_REFRESHED") return;
+      // Nothing cached for one account may show up for the next one.
+      if (event === "SIGNED_OUT") queryClient.clear();
+      const recoveryStarted = event === "PASSWORD_RECOVERY" || (pendingRecovery.current && !!session);
+      if (session) pendingRecovery.current = false;
+      // Saving the new password (USER_UPDATED) or signing out ends the recovery.
+      setState((prev) => ({
+        user: session?.user ?? null,
+        loading: false,
+        recovering: !!session && event !== "USER_UPDATED" && (recoveryStarted || prev.recovering),
+      }));
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+
+  return <AuthContext.Provider value={state}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) throw new Error("useAuth must be used within an AuthProvider");
+  return context;
+}
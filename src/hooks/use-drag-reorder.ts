@@ -0,0 +1,83 @@
+import { useCallback, useState } from "react";
+import { moveItem } from "@/lib/album-sort";
+
+interface UseDragReorderOptions {
+  ids: string[];
+  enabled: boolean;
+  onReorder: (ids: string[]) => void;
+}
+
+const KEY_STEPS: Record<string, number> = {
+  ArrowLeft: -1,
+  ArrowUp: -1,
+  ArrowRight: 1,
+  ArrowDown: 1,
+};
+
+/**
+ * Drag-and-drop reordering of a list of ids with native drag events, plus
+ * Alt+arrow keys on a focused item for keyboard users. While dragging,
+ * `order` previews the new sequence; `onReorder` fires once on drop.
+ */
+export function useDragReorder({ ids, enabled, onReorder }: UseDragReorderOptions) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string[] | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  const order = preview ?? ids;
+
+  const commit = useCallback(
+    (next: string[]) => {
+      if (next.some((id, i) => id !== ids[i])) onReorder(next);
+    },
+    [ids, onReorder]
+  );
+
+  const getItemProps = (id: string) => {
+    if (!enabled) return {};
+
+    return {
+      draggable: true,
+      tabIndex: 0,
+      "data-reorder-id": id,
+      "aria-roledescription": "item reordenável",
+      onDragStart: (e: React.DragEvent) => {
+        e.dataTransfer.effectAllowed = "move";
+        setDraggingId(id);
+        setPreview(ids);
+      },
+      onDragOver: (e: React.DragEvent) => {
+        if (!draggingId) return;
+        e.preventDefault();
+        if (draggingId === id || !preview) return;
+        setPreview(moveItem(preview, preview.indexOf(draggingId), preview.indexOf(id)));
+      },
+      onDrop: (e: React.DragEvent) => {
+        if (draggingId) e.preventDefault();
+      },
+      onDragEnd: () => {
+        if (preview) commit(preview);
+        setDraggingId(null);
+        setPreview(null);
+      },
+      onKeyDown: (e: React.KeyboardEvent) => {
+        const step = KEY_STEPS[e.key];
+        if (!e.altKey || !step || e.target !== e.currentTarget) return;
+        e.preventDefault();
+
+        const from = ids.indexOf(id);
+        const to = Math.min(Math.max(from + step, 0), ids.length - 1);
+        if (from === to) return;
+
+        commit(moveItem(ids, from, to));
+        setAnnouncement(`Foto movida para a posição ${to + 1} de ${ids.length}`);
+        // Moving the node in the DOM drops focus, so put it back.
+        requestAnimationFrame(() =>
+          document.querySelector<HTMLElement>(`[data-reorder-id="${id}"]`)?.focus()
+        );
+      },
+    };
+  };
+
+  return { order, draggingId, announcement, getItemProps };
+}
@@ -0,0 +1,16 @@
+import { createContext, useContext } from "react";
+
+export interface NewPhotosState {
+  /** Photos uploaded or restored elsewhere since the library was last refreshed. */
+  newPhotoIds: string[];
+  clearNewPhotos: () => void;
+}
+
+/** Provided by `RealtimeProvider`, which collects the new photos. */
+export const NewPhotosContext = createContext<NewPhotosState | null>(null);
+
+export function useNewPhotos() {
+  const context = useContext(NewPhotosContext);
+  if (!context) throw new Error("useNewPhotos must be used within a RealtimeProvider");
+  return context;
+}
@@ -0,0 +1,195 @@
+import { InfiniteData, QueryClient, useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PhotoTextPatch } from "@/components/PhotoTile";
+import { PhotoFilterOptions, PhotoFilters } from "@/lib/photo-filters";
+import { PhotoSort } from "@/lib/photo-groups";
+import { ListPhotosArgs, PHOTO_PAGE_SIZE, photoFilterArgs, photoPageCursor } from "@/lib/photo-pages";
+import { queryKeys } from "@/lib/query-keys";
+import { Tag, tagsFromEmbed } from "@/lib/tags";
+
+export interface LibraryPhoto extends Tables<"photos"> {
+  camera_model: string | null;
+  album_count: number;
+  tags: Tag[];
+}
+
+interface PhotoPage {
+  photos: LibraryPhoto[];
+  /** Where the next page starts, or null on the last page. */
+  nextCursor: ListPhotosArgs | null;
+}
+
+type PhotoPages = InfiniteData<PhotoPage, ListPhotosArgs>;
+
+/**
+ * Applies `update` to every cached library photo, in every sort and filter;
+ * returning null drops the photo.
+ */
+export const updateCachedPhotos = (queryClient: QueryClient, update: (photo: LibraryPhoto) => LibraryPhoto | null) =>
+  queryClient.setQueriesData<PhotoPages>({ queryKey: queryKeys.photos.lists() }, (data) =>
+    data
+      ? {
+          ...data,
+          pages: data.pages.map((page) => ({ ...page, photos: page.photos.map(update).filter(Boolean) })),
+        }
+      : data
+  );
+
+/** Puts new photos at the top of every cached library list; the page filters and sorts them in. */
+export const addCachedPhotos = (queryClient: QueryClient, photos: LibraryPhoto[]) =>
+  queryClient.setQueriesData<PhotoPages>({ queryKey: queryKeys.photos.lists() }, (data) =>
+    data && data.pages.length > 0
+      ? {
+          ...data,
+          pages: [{ ...data.pages[0], photos: [...photos, ...data.pages[0].photos] }, ...data.pages.slice(1)],
+        }
+      : data
+  );
+
+/** The loaded pages as one list. Uploads and restores are put on the first page, so a photo can show up again further down. */
+export const flattenPhotoPages = (data: PhotoPages | undefined) => {
+  const seen = new Set<string>();
+  return (data?.pages ?? [])
+    .flatMap((page) => page.photos)
+    .filter((photo) => {
+      if (seen.has(photo.id)) return false;
+      seen.add(photo.id);
+      return true;
+    });
+};
+
+/** The user's library, a keyset page at a time. */
+export function usePhotoPages(userId: string | undefined, sort: PhotoSort, filters: PhotoFilters) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.photos.list(userId ?? "", sort, filters),
+    enabled: !!userId,
+    initialPageParam: {} as ListPhotosArgs,
+    queryFn: async ({ pageParam }): Promise<PhotoPage> => {
+      const { data, error } = await supabase
+        .rpc("list_photos", { sort_by: sort, page_size: PHOTO_PAGE_SIZE, ...photoFilterArgs(filters), ...pageParam })
+        .select("*, photo_tags(tags(id, name)), photo_metadata(camera_model), album_photos(count)");
+      if (error) throw error;
+
+      const last = data[data.length - 1];
+      return {
+        photos: data.map(({ photo_tags, photo_metadata, album_photos, ...photo }) => ({
+          ...photo,
+          camera_model: photo_metadata?.camera_model ?? null,
+          album_count: album_photos[0]?.count ?? 0,
+          tags: tagsFromEmbed(photo_tags),
+        })),
+        nextCursor: data.length === PHOTO_PAGE_SIZE ? photoPageCursor(last, sort) : null,
+      };
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+}
+
+/** How many photos the user has, and how many of them pass `filters`. */
+export function usePhotoCounts(userId: string | undefined, filters: PhotoFilters) {
+  return useQuery({
+    queryKey: queryKeys.photos.count(userId ?? "", filters),
+    enabled: !!userId,
+    queryFn: async () => {
+      const [total, matching] = await Promise.all([
+        supabase.from("photos").select("id", { count: "exact", head: true }).eq("user_id", userId),
+        supabase.rpc("list_photos", photoFilterArgs(filters), { head: true, count: "exact" }),
+      ]);
+      if (total.error) throw total.error;
+      if (matching.error) throw matching.error;
+      return { total: total.count ?? 0, matching: matching.count ?? 0 };
+    },
+  });
+}
+
+/** Cameras and file types to offer in the library filters, regardless of the active ones. */
+export function usePhotoFilterOptions(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.photos.filterOptions(userId ?? ""),
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_photo_filter_options");
+      if (error) throw error;
+      return data as unknown as PhotoFilterOptions;
+    },
+  });
+}
+
+export function useUpdatePhotos() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ photoIds, patch }: { photoIds: string[]; patch: PhotoTextPatch }) => {
+      const { error } = await supabase.from("photos").update(patch).in("id", photoIds);
+      if (error) throw error;
+    },
+    onMutate: async ({ photoIds, patch }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.photos.lists() });
+      const ids = new Set(photoIds);
+      const previous = new Map<string, LibraryPhoto>();
+      updateCachedPhotos(queryClient, (photo) => {
+        if (!ids.has(photo.id)) return photo;
+        previous.set(photo.id, photo);
+        return { ...photo, ...patch };
+      });
+      return { previous };
+    },
+    onError: (_error, { patch }, context) => {
+      // Roll back only the edited fields so concurrent changes are kept.
+      updateCachedPhotos(queryClient, (photo) => {
+        const original = context?.previous.get(photo.id);
+        if (!original) return photo;
+        const restored = { ...photo };
+        for (const key of Object.keys(patch) as (keyof PhotoTextPatch)[]) {
+          restored[key] = original[key];
+        }
+        return restored;
+      });
+    },
+  });
+}
+
+/** Moves photos to the trash, taking them out of the cached library right away. */
+export function useTrashPhotos() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (photos: LibraryPhoto[]) => {
+      const { error } = await supabase.rpc("trash_photos", { photo_ids: photos.map((photo) => photo.id) });
+      if (error) throw error;
+    },
+    onMutate: async (photos) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.photos.lists() });
+      const previous = queryClient.getQueriesData<PhotoPages>({ queryKey: queryKeys.photos.lists() });
+      const removed = new Set(photos.map((photo) => photo.id));
+      updateCachedPhotos(queryClient, (photo) => (removed.has(photo.id) ? null : photo));
+      return { previous };
+    },
+    onError: (_error, _photos, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.photos.counts() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.photos.options() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.all });
+    },
+  });
+}
+
+export function useRestorePhotos() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (photos: LibraryPhoto[]) => {
+      const { error } = await supabase.rpc("restore_photos", { photo_ids: photos.map((photo) => photo.id) });
+      if (error) throw error;
+    },
+    onSuccess: (_data, photos) => {
+      addCachedPhotos(queryClient, photos);
+      queryClient.invalidateQueries({ queryKey: queryKeys.photos.counts() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.photos.options() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.all });
+    },
+  });
+}
@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { queryKeys } from "@/lib/query-keys";
+
+export type ProfilePatch = Pick<TablesUpdate<"profiles">, "display_name" | "avatar_url">;
+
+// Avatars uploaded before the photos bucket went private still point into it.
+const LEGACY_AVATAR_MARKER = "/object/public/photos/";
+
+export const hasLegacyAvatar = (profile: Pick<Tables<"profiles">, "avatar_url">) =>
+  !!profile.avatar_url?.includes(LEGACY_AVATAR_MARKER);
+
+async function moveLegacyAvatar(profile: Tables<"profiles">): Promise<Tables<"profiles">> {
+  const oldPath = decodeURIComponent(profile.avatar_url.split(LEGACY_AVATAR_MARKER)[1].split("?")[0]);
+
+  const { data: file, error: downloadError } = await supabase.storage.from("photos").download(oldPath);
+  if (downloadError) throw downloadError;
+
+  const newPath = `${profile.user_id}/avatar.${oldPath.split(".").pop()}`;
+  const { error: uploadError } = await supabase.storage
+    .from("avatars")
+    .upload(newPath, file, { upsert: true, contentType: file.type });
+  if (uploadError) throw uploadError;
+
+  const { data: { publicUrl } } = supabase.storage.from("avatars").getPublicUrl(newPath);
+  const { data, error } = await supabase
+    .from("profiles")
+    .update({ avatar_url: publicUrl })
+    .eq("user_id", profile.user_id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  // The copy is in place; a leftover original only costs storage.
+  await supabase.storage.from("photos").remove([oldPath]);
+  return data;
+}
+
+export function useProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.profile(userId ?? ""),
+    enabled: !!userId,
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("*").eq("user_id", userId).single();
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+/**
+ * Copies an avatar left in the photos bucket over to the public avatars
+ * bucket. Only its owner can still read the old file, so the profile page
+ * runs this once for them; until then the stored URL is kept as it was.
+ */
+export function useMoveLegacyAvatar(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: moveLegacyAvatar,
+    onSuccess: (profile) => queryClient.setQueryData(queryKeys.profile(userId ?? ""), profile),
+  });
+}
+
+export function useUpdateProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.profile(userId ?? "");
+
+  return useMutation({
+    mutationFn: async (patch: ProfilePatch) => {
+      const { error } = await supabase.from("profiles").update(patch).eq("user_id", userId);
+      if (error) throw error;
+    },
+    onMutate: async (patch) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<Tables<"profiles">>(queryKey);
+      queryClient.setQueryData<Tables<"profiles">>(queryKey, (profile) => (profile ? { ...profile, ...patch } : profile));
+      return { previous };
+    },
+    onError: (_error, _patch, context) => queryClient.setQueryData(queryKey, context?.previous),
+  });
+}
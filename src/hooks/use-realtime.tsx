@@ -0,0 +1,140 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { QueryKey, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { AlbumWithRole, useSharedAlbumIds } from "@/hooks/use-albums";
+import { NewPhotosContext } from "@/hooks/use-new-photos";
+import { updateCachedPhotos } from "@/hooks/use-photos";
+import { queryKeys } from "@/lib/query-keys";
+
+/** A row change as sent by realtime.broadcast_changes in the database. */
+type RowChange<Table extends "photos" | "albums" | "album_photos"> = {
+  table: Table;
+  operation: "INSERT" | "UPDATE" | "DELETE";
+  record: Tables<Table> | null;
+  old_record: Tables<Table> | null;
+};
+
+type Change = RowChange<"photos"> | RowChange<"albums"> | RowChange<"album_photos">;
+
+// Reordering an album changes every row; one refetch covers the whole burst.
+const INVALIDATE_DELAY_MS = 250;
+
+const inLibrary = (photo: Tables<"photos"> | null) => !!photo && !photo.deleted_at;
+
+/**
+ * Follows changes to the user's photos and to every album they can view, made
+ * in other tabs or on other devices, and merges them into the query cache.
+ * New photos are only announced, so the grid does not jump while browsing.
+ */
+export function RealtimeProvider({ userId, children }: { userId: string; children: ReactNode }) {
+  const [newPhotoIds, setNewPhotoIds] = useState<string[]>([]);
+  const queryClient = useQueryClient();
+  const { data: sharedAlbumIds } = useSharedAlbumIds(userId);
+  const albumIds = useMemo(() => [...(sharedAlbumIds ?? [])].sort().join(","), [sharedAlbumIds]);
+  const pendingKeys = useRef(new Map<string, QueryKey>());
+  const flushTimer = useRef<number>();
+
+  const invalidateSoon = useCallback(
+    (queryKey: QueryKey) => {
+      pendingKeys.current.set(JSON.stringify(queryKey), queryKey);
+      if (flushTimer.current) return;
+      flushTimer.current = window.setTimeout(() => {
+        flushTimer.current = undefined;
+        pendingKeys.current.forEach((key) => queryClient.invalidateQueries({ queryKey: key }));
+        pendingKeys.current.clear();
+      }, INVALIDATE_DELAY_MS);
+    },
+    [queryClient]
+  );
+
+  useEffect(() => () => clearTimeout(flushTimer.current), []);
+
+  const handleChange = useCallback(
+    (change: Change, albumId?: string) => {
+      if (change.table === "photos") {
+        // On an album topic, the photo only matters to that album's page.
+        if (albumId) {
+          invalidateSoon(queryKeys.albums.photos(albumId));
+          return;
+        }
+
+        const { record, old_record } = change;
+        // Album pages show the photo too; other users' photos only arrive
+        // here because they are in one of the user's albums.
+        if (change.operation !== "INSERT") invalidateSoon(queryKeys.albums.details());
+        if ((record ?? old_record).user_id !== userId) return;
+
+        const added = inLibrary(record) && !inLibrary(old_record);
+        const removed = inLibrary(old_record) && !inLibrary(record);
+
+        if (added) {
+          setNewPhotoIds((prev) => (prev.includes(record.id) ? prev : [...prev, record.id]));
+          // Lists pick the photo up the next time they load; the open grid waits for the banner.
+          queryClient.invalidateQueries({ queryKey: queryKeys.photos.lists(), refetchType: "none" });
+        } else if (removed) {
+          setNewPhotoIds((prev) => prev.filter((id) => id !== old_record.id));
+          updateCachedPhotos(queryClient, (photo) => (photo.id === old_record.id ? null : photo));
+        } else if (inLibrary(record)) {
+          updateCachedPhotos(queryClient, (photo) => (photo.id === record.id ? { ...photo, ...record } : photo));
+        }
+
+        if (added || removed) {
+          invalidateSoon(queryKeys.photos.counts());
+          invalidateSoon(queryKeys.albums.list());
+        }
+      } else if (change.table === "albums") {
+        const album = change.record ?? change.old_record;
+        invalidateSoon(queryKeys.albums.list());
+        // Albums coming or going change which album topics to follow.
+        if (change.operation !== "UPDATE" || change.record.deleted_at !== change.old_record.deleted_at) {
+          invalidateSoon(queryKeys.albums.sharedIds(userId));
+        }
+        if (change.record && !change.record.deleted_at) {
+          queryClient.setQueryData<AlbumWithRole>(queryKeys.albums.detail(album.id), (detail) =>
+            detail ? { ...detail, album: change.record } : detail
+          );
+        } else {
+          // Trashed or deleted: refetching lets an open album page notice it is gone.
+          invalidateSoon(queryKeys.albums.detail(album.id));
+        }
+      } else {
+        const albumPhoto = change.record ?? change.old_record;
+        invalidateSoon(queryKeys.albums.photos(albumPhoto.album_id));
+        invalidateSoon(queryKeys.albums.list());
+      }
+    },
+    [userId, queryClient, invalidateSoon]
+  );
+
+  const subscribe = useCallback(
+    (topic: string, albumId?: string) =>
+      supabase
+        .channel(topic, { config: { private: true } })
+        .on("broadcast", { event: "*" }, ({ payload }) => handleChange(payload as Change, albumId))
+        .subscribe(),
+    [handleChange]
+  );
+
+  useEffect(() => {
+    const channel = subscribe(`user:${userId}`);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, subscribe]);
+
+  // The user topic covers the user's own albums; albums shared with them have
+  // their own topics.
+  useEffect(() => {
+    if (!albumIds) return;
+    const channels = albumIds.split(",").map((albumId) => subscribe(`album:${albumId}`, albumId));
+    return () => {
+      channels.forEach((channel) => supabase.removeChannel(channel));
+    };
+  }, [albumIds, subscribe]);
+
+  const clearNewPhotos = useCallback(() => setNewPhotoIds([]), []);
+  const value = useMemo(() => ({ newPhotoIds, clearNewPhotos }), [newPhotoIds, clearNewPhotos]);
+
+  return <NewPhotosContext.Provider value={value}>{children}</NewPhotosContext.Provider>;
+}
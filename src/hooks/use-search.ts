@@ -0,0 +1,39 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { EMPTY_SEARCH_RESULTS, SearchResults } from "@/lib/search";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+/** Searches photos and albums as the query changes, debounced. */
+export function useSearch(query: string) {
+  const [results, setResults] = useState<SearchResults>(EMPTY_SEARCH_RESULTS);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const searchQuery = query.trim();
+    if (!searchQuery) {
+      setResults(EMPTY_SEARCH_RESULTS);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("search_library", { search_query: searchQuery });
+      if (cancelled) return;
+      setResults(error ? EMPTY_SEARCH_RESULTS : (data as unknown as SearchResults));
+      setError(error?.message ?? null);
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return { results, loading, error };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useRef, useState } from "react";
+
+/**
+ * Tracks a set of selected ids over an ordered list, with shift-click range
+ * selection anchored on the last plainly toggled id.
+ */
+export function useSelection(orderedIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const anchor = useRef<string | null>(null);
+
+  const toggle = useCallback(
+    (id: string, { range = false } = {}) => {
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        const from = anchor.current ? orderedIds.indexOf(anchor.current) : -1;
+        const to = orderedIds.indexOf(id);
+
+        if (range && from !== -1 && to !== -1) {
+          const [start, end] = from < to ? [from, to] : [to, from];
+          orderedIds.slice(start, end + 1).forEach((rangeId) => next.add(rangeId));
+        } else if (next.has(id)) {
+          next.delete(id);
+          anchor.current = id;
+        } else {
+          next.add(id);
+          anchor.current = id;
+        }
+        return next;
+      });
+    },
+    [orderedIds]
+  );
+
+  const selectMany = useCallback((ids: Iterable<string>, { additive = false } = {}) => {
+    setSelectedIds((prev) => new Set([...(additive ? prev : []), ...ids]));
+  }, []);
+
+  const selectAll = useCallback(() => setSelectedIds(new Set(orderedIds)), [orderedIds]);
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set());
+    anchor.current = null;
+  }, []);
+
+  return { selectedIds, toggle, selectMany, selectAll, clear };
+}
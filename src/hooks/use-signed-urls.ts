@@ -0,0 +1,35 @@
+import { useContext, useEffect, useMemo, useState } from "react";
+import { SIGNED_URL_REFRESH_MARGIN, SignedUrlContext } from "@/lib/signed-urls";
+
+/**
+ * Resolves storage paths to signed URLs, keyed by path, and re-signs them
+ * shortly before they expire so long-lived pages keep working.
+ */
+export function useSignedUrls(paths: (string | null | undefined)[]) {
+  const cache = useContext(SignedUrlContext);
+  const key = paths.filter((path): path is string => !!path).join("\n");
+  const list = useMemo(() => (key ? key.split("\n") : []), [key]);
+  const [urls, setUrls] = useState<Record<string, string>>(() => cache.peek(list));
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const load = async () => {
+      const signed = await cache.sign(list);
+      if (cancelled) return;
+      setUrls(signed.urls);
+      if (Number.isFinite(signed.expiresAt)) {
+        timer = setTimeout(load, Math.max(signed.expiresAt - SIGNED_URL_REFRESH_MARGIN - Date.now(), 0));
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [cache, list]);
+
+  return urls;
+}
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { normalizeTagName, sortTags, Tag } from "@/lib/tags";
+
+/** The user's tags, for autocomplete and filters, plus creation on demand. */
+export function useTags(userId?: string) {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    supabase
+      .from("tags")
+      .select("id, name")
+      .eq("user_id", userId)
+      .then(({ data }) => setTags(sortTags(data || [])));
+  }, [userId]);
+
+  const createTag = useCallback(
+    async (name: string) => {
+      const { data, error } = await supabase.rpc("ensure_tags", { tag_names: [normalizeTagName(name)] });
+      const tag = data?.[0];
+
+      if (error || !tag) {
+        toast({
+          title: "Erro ao criar tag",
+          description: error?.message,
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      setTags((prev) => (prev.some((t) => t.id === tag.id) ? prev : sortTags([...prev, tag])));
+      return { id: tag.id, name: tag.name };
+    },
+    [toast]
+  );
+
+  return { tags, createTag };
+}
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { uploadPhoto, UploadPhotoMeta } from "@/lib/upload";
+import type { Tables } from "@/integrations/supabase/types";
+
+const MAX_CONCURRENT_UPLOADS = 3;
+
+export type UploadStatus = "pending" | "uploading" | "saving" | "done" | "error" | "canceled" | "duplicate";
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  meta: UploadPhotoMeta;
+  status: UploadStatus;
+  progress: number;
+  error?: string;
+}
+
+interface UseUploadQueueOptions {
+  userId?: string;
+  /** `duplicate` marks a file that was already in the library; that photo is passed instead. */
+  onUploaded?: (photo: Tables<"photos">, info: { meta: UploadPhotoMeta; duplicate: boolean }) => void;
+}
+
+export function useUploadQueue({ userId, onUploaded }: UseUploadQueueOptions) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  // Null once an upload is saving and can no longer be aborted.
+  const controllers = useRef(new Map<string, AbortController | null>());
+  const batch = useRef({ done: 0, duplicates: 0, failed: 0 });
+  const onUploadedRef = useRef(onUploaded);
+  const { toast } = useToast();
+
+  onUploadedRef.current = onUploaded;
+
+  const updateItem = useCallback((id: string, patch: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const startUpload = useCallback(
+    async (item: UploadItem) => {
+      if (!userId) return;
+
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+      updateItem(item.id, { status: "uploading", progress: 0, error: undefined });
+
+      try {
+        const { photo, duplicate } = await uploadPhoto(userId, item.file, item.meta, {
+          signal: controller.signal,
+          onProgress: (progress) => updateItem(item.id, { progress }),
+          // The photo row is about to be written; canceling now would only hide it.
+          onSaving: () => {
+            controllers.current.set(item.id, null);
+            updateItem(item.id, { status: "saving", progress: 100 });
+          },
+        });
+        if (duplicate) {
+          batch.current.duplicates += 1;
+          updateItem(item.id, { status: "duplicate", progress: 100 });
+        } else {
+          batch.current.done += 1;
+          updateItem(item.id, { status: "done", progress: 100 });
+        }
+        onUploadedRef.current?.(photo, { meta: item.meta, duplicate });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          updateItem(item.id, { status: "canceled" });
+        } else {
+          batch.current.failed += 1;
+          updateItem(item.id, { status: "error", error: (error as Error).message });
+        }
+      } finally {
+        controllers.current.delete(item.id);
+      }
+    },
+    [userId, updateItem]
+  );
+
+  useEffect(() => {
+    const slots = MAX_CONCURRENT_UPLOADS - controllers.current.size;
+    if (slots <= 0) return;
+
+    items
+      .filter((item) => item.status === "pending" && !controllers.current.has(item.id))
+      .slice(0, slots)
+      .forEach(startUpload);
+  }, [items, startUpload]);
+
+  const busy = items.some((item) => item.status === "pending" || item.status === "uploading" || item.status === "saving");
+  const wasBusy = useRef(false);
+
+  useEffect(() => {
+    if (wasBusy.current && !busy) {
+      const { done, duplicates, failed } = batch.current;
+      if (done > 0 || duplicates > 0 || failed > 0) {
+        toast({
+          title: failed > 0 ? "Upload concluído com erros" : "Fotos adicionadas!",
+          description: `${done} foto(s) enviada(s)${duplicates > 0 ? `, ${duplicates} já existe(m)` : ""}${
+            failed > 0 ? `, ${failed} com erro` : ""
+          }.`,
+          variant: failed > 0 && done === 0 && duplicates === 0 ? "destructive" : "default",
+        });
+      }
+      batch.current = { done: 0, duplicates: 0, failed: 0 };
+    }
+    wasBusy.current = busy;
+  }, [busy, toast]);
+
+  const enqueue = useCallback((files: File[], meta: UploadPhotoMeta = {}) => {
+    const newItems = files.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      meta,
+      status: "pending" as const,
+      progress: 0,
+    }));
+    setItems((prev) => [...prev, ...newItems]);
+  }, []);
+
+  const cancel = useCallback(
+    (id: string) => {
+      const controller = controllers.current.get(id);
+      if (controller) {
+        controller.abort();
+      } else if (controller === undefined) {
+        updateItem(id, { status: "canceled" });
+      }
+    },
+    [updateItem]
+  );
+
+  const retry = useCallback(
+    (id: string) => updateItem(id, { status: "pending", progress: 0, error: undefined }),
+    [updateItem]
+  );
+
+  const clearFinished = useCallback(() => {
+    setItems((prev) =>
+      prev.filter((item) => item.status === "pending" || item.status === "uploading" || item.status === "saving")
+    );
+  }, []);
+
+  return { items, busy, enqueue, cancel, retry, clearFinished };
+}
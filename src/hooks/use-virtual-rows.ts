@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+interface UseVirtualRowsOptions {
+  /** Height of every row, in pixels. */
+  sizes: number[];
+  /** Extra distance above and below the viewport that stays mounted. */
+  overscan?: number;
+  /** Height of sticky page chrome covering the top of the viewport. */
+  stickyOffset?: number;
+}
+
+export interface VirtualRow {
+  index: number;
+  start: number;
+  size: number;
+}
+
+const EMPTY_RANGE = { first: 0, last: -1, current: 0 };
+
+/** Index of the row containing `offset`, given ascending row starts. */
+const findRow = (starts: number[], offset: number) => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+/**
+ * Windowing for a list that scrolls with the page: only rows near the
+ * viewport are returned, positioned absolutely inside a container of the
+ * full height. Re-renders only when the mounted range changes, not on every
+ * scroll event.
+ */
+export function useVirtualRows({ sizes, overscan = 800, stickyOffset = 0 }: UseVirtualRowsOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState(EMPTY_RANGE);
+
+  const { starts, totalSize } = useMemo(() => {
+    let offset = 0;
+    const starts = sizes.map((size) => {
+      const start = offset;
+      offset += size;
+      return start;
+    });
+    return { starts, totalSize: offset };
+  }, [sizes]);
+
+  const update = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || starts.length === 0) {
+      setRange(EMPTY_RANGE);
+      return;
+    }
+
+    const top = -container.getBoundingClientRect().top;
+    const next = {
+      first: findRow(starts, Math.max(0, top - overscan)),
+      last: findRow(starts, Math.max(0, top + window.innerHeight + overscan)),
+      current: findRow(starts, Math.max(0, top + stickyOffset)),
+    };
+    setRange((prev) =>
+      prev.first === next.first && prev.last === next.last && prev.current === next.current ? prev : next
+    );
+  }, [starts, overscan, stickyOffset]);
+
+  useEffect(() => {
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, [update]);
+
+  const rows: VirtualRow[] = [];
+  for (let index = range.first; index <= Math.min(range.last, sizes.length - 1); index++) {
+    rows.push({ index, start: starts[index], size: sizes[index] });
+  }
+
+  return {
+    containerRef,
+    totalSize,
+    rows,
+    /** Row under the sticky chrome at the top of the viewport. */
+    currentIndex: Math.min(range.current, sizes.length - 1),
+    /** Whether the last row is mounted, i.e. the end of the list is near. */
+    reachedEnd: sizes.length > 0 && range.last >= sizes.length - 1,
+  };
+}
@@ -14,21 +14,56 @@ export type Database = {
   }
   public: {
     Tables: {
+      album_members: {
+        Row: {
+          album_id: string
+          created_at: string
+          invited_by: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          album_id: string
+          created_at?: string
+          invited_by?: string | null
+          role: string
+          user_id: string
+        }
+        Update: {
+          album_id?: string
+          created_at?: string
+          invited_by?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "album_members_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       album_photos: {
         Row: {
           added_at: string
           album_id: string
           photo_id: string
+          position: number
         }
         Insert: {
           added_at?: string
           album_id: string
           photo_id: string
+          position?: number
         }
         Update: {
           added_at?: string
           album_id?: string
           photo_id?: string
+          position?: number
         }
         Relationships: [
           {
@@ -47,29 +82,83 @@ export type Database = {
           },
         ]
       }
+      album_shares: {
+        Row: {
+          album_id: string
+          created_at: string
+          expires_at: string | null
+          has_password: boolean | null
+          id: string
+          password_hash: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          album_id: string
+          created_at?: string
+          expires_at?: string | null
+          has_password?: boolean | null
+          id?: string
+          password_hash?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          album_id?: string
+          created_at?: string
+          expires_at?: string | null
+          has_password?: boolean | null
+          id?: string
+          password_hash?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "album_shares_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       albums: {
         Row: {
           cover_photo_id: string | null
+          cover_style: string
           created_at: string
+          deleted_at: string | null
           description: string | null
           id: string
           name: string
+          photo_count: number | null
+          search_vector: unknown | null
+          sort_mode: string
           user_id: string
         }
         Insert: {
           cover_photo_id?: string | null
+          cover_style?: string
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
           name: string
+          search_vector?: unknown | null
+          sort_mode?: string
           user_id: string
         }
         Update: {
           cover_photo_id?: string | null
+          cover_style?: string
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
           name?: string
+          search_vector?: unknown | null
+          sort_mode?: string
           user_id?: string
         }
         Relationships: [
@@ -82,30 +171,176 @@ export type Database = {
           },
         ]
       }
+      photo_metadata: {
+        Row: {
+          altitude: number | null
+          camera_make: string | null
+          camera_model: string | null
+          created_at: string
+          exposure_time: number | null
+          f_number: number | null
+          focal_length: number | null
+          height: number | null
+          iso: number | null
+          latitude: number | null
+          lens_model: string | null
+          longitude: number | null
+          orientation: number | null
+          photo_id: string
+          taken_at: string | null
+          width: number | null
+        }
+        Insert: {
+          altitude?: number | null
+          camera_make?: string | null
+          camera_model?: string | null
+          created_at?: string
+          exposure_time?: number | null
+          f_number?: number | null
+          focal_length?: number | null
+          height?: number | null
+          iso?: number | null
+          latitude?: number | null
+          lens_model?: string | null
+          longitude?: number | null
+          orientation?: number | null
+          photo_id: string
+          taken_at?: string | null
+          width?: number | null
+        }
+        Update: {
+          altitude?: number | null
+          camera_make?: string | null
+          camera_model?: string | null
+          created_at?: string
+          exposure_time?: number | null
+          f_number?: number | null
+          focal_length?: number | null
+          height?: number | null
+          iso?: number | null
+          latitude?: number | null
+          lens_model?: string | null
+          longitude?: number | null
+          orientation?: number | null
+          photo_id?: string
+          taken_at?: string | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_metadata_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: true
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      photo_tags: {
+        Row: {
+          created_at: string
+          photo_id: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          photo_id: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          photo_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "photo_tags_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "photo_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       photos: {
         Row: {
+          content_hash: string | null
           created_at: string
+          deleted_at: string | null
           description: string | null
+          duplicate_content_hash: string | null
+          height: number | null
           id: string
+          large_path: string | null
+          large_width: number | null
+          medium_path: string | null
+          medium_width: number | null
+          mime_type: string | null
+          path: string
+          perceptual_hash: string | null
+          search_vector: unknown | null
+          size_bytes: number | null
+          small_path: string | null
+          small_width: number | null
+          taken_at: string
           title: string | null
-          url: string
           user_id: string
+          width: number | null
         }
         Insert: {
+          content_hash?: string | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          duplicate_content_hash?: string | null
+          height?: number | null
           id?: string
+          large_path?: string | null
+          large_width?: number | null
+          medium_path?: string | null
+          medium_width?: number | null
+          mime_type?: string | null
+          path: string
+          perceptual_hash?: string | null
+          search_vector?: unknown | null
+          size_bytes?: number | null
+          small_path?: string | null
+          small_width?: number | null
+          taken_at?: string
           title?: string | null
-          url: string
           user_id: string
+          width?: number | null
         }
         Update: {
+          content_hash?: string | null
           created_at?: string
+          deleted_at?: string | null
           description?: string | null
+          duplicate_content_hash?: string | null
+          height?: number | null
           id?: string
+          large_path?: string | null
+          large_width?: number | null
+          medium_path?: string | null
+          medium_width?: number | null
+          mime_type?: string | null
+          path?: string
+          perceptual_hash?: string | null
+          search_vector?: unknown | null
+          size_bytes?: number | null
+          small_path?: string | null
+          small_width?: number | null
+          taken_at?: string
           title?: string | null
-          url?: string
           user_id?: string
+          width?: number | null
         }
         Relationships: []
       }
@@ -115,6 +350,7 @@ export type Database = {
           created_at: string
           display_name: string | null
           id: string
+          storage_quota_bytes: number
           user_id: string
         }
         Insert: {
@@ -122,6 +358,7 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          storage_quota_bytes?: number
           user_id: string
         }
         Update: {
@@ -129,6 +366,28 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          storage_quota_bytes?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
           user_id?: string
         }
         Relationships: []
@@ -138,7 +397,180 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      album_role: {
+        Args: { target_album_id: string }
+        Returns: string
+      }
+      can_add_to_album: {
+        Args: { target_album_id: string }
+        Returns: boolean
+      }
+      can_edit_album: {
+        Args: { target_album_id: string }
+        Returns: boolean
+      }
+      can_view_album: {
+        Args: { target_album_id: string }
+        Returns: boolean
+      }
+      can_view_shared_object: {
+        Args: { object_name: string }
+        Returns: boolean
+      }
+      create_album_share: {
+        Args: {
+          share_expires_at?: string
+          share_password?: string
+          target_album_id: string
+        }
+        Returns: string
+      }
+      delete_albums_permanently: {
+        Args: { album_ids: string[] }
+        Returns: undefined
+      }
+      delete_photos_permanently: {
+        Args: { photo_ids: string[] }
+        Returns: Database["public"]["Tables"]["photos"]["Row"][]
+      }
+      duplicate_album: {
+        Args: { new_name: string; source_album_id: string }
+        Returns: Database["public"]["Tables"]["albums"]["Row"]
+        SetofOptions: {
+          from: "*"
+          to: "albums"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      ensure_tags: {
+        Args: { tag_names: string[] }
+        Returns: Database["public"]["Tables"]["tags"]["Row"][]
+      }
+      get_photo_filter_options: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_shared_album: {
+        Args: { share_password?: string; share_token: string }
+        Returns: Json
+      }
+      get_storage_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      in_owner_folder: {
+        Args: { object_name: string; owner_id: string }
+        Returns: boolean
+      }
+      invite_album_member: {
+        Args: { member_email: string; member_role: string; target_album_id: string }
+        Returns: undefined
+      }
+      list_album_members: {
+        Args: { target_album_id: string }
+        Returns: {
+          avatar_url: string
+          display_name: string
+          email: string
+          role: string
+          user_id: string
+        }[]
+      }
+      list_photos: {
+        Args: {
+          after_id?: string
+          after_value?: string
+          camera?: string
+          exclude_album_id?: string
+          match_all_tags?: boolean
+          mime?: string
+          only_unfiled?: boolean
+          only_untitled?: boolean
+          orientation?: string
+          page_size?: number
+          search_query?: string
+          sort_by?: string
+          tag_ids?: string[]
+          taken_from?: string
+          taken_to?: string
+        }
+        Returns: Database["public"]["Tables"]["photos"]["Row"][]
+        SetofOptions: {
+          from: "*"
+          to: "photos"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      list_trashed_albums: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["albums"]["Row"][]
+      }
+      list_trashed_photos: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Tables"]["photos"]["Row"][]
+      }
+      photo_count: {
+        Args: { "": Database["public"]["Tables"]["albums"]["Row"] }
+        Returns: number
+      }
+      photo_paths_in_owner_folder: {
+        Args: { photo: Database["public"]["Tables"]["photos"]["Row"] }
+        Returns: boolean
+      }
+      photo_search_vector: {
+        Args: { description: string; target_photo_id: string; title: string }
+        Returns: unknown
+      }
+      purge_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      regenerate_album_share_token: {
+        Args: { share_id: string }
+        Returns: undefined
+      }
+      reorder_album_photos: {
+        Args: { photo_ids: string[]; target_album_id: string }
+        Returns: undefined
+      }
+      restore_albums: {
+        Args: { album_ids: string[] }
+        Returns: undefined
+      }
+      restore_photos: {
+        Args: { photo_ids: string[] }
+        Returns: undefined
+      }
+      search_document: {
+        Args: { value: string; weight: string }
+        Returns: unknown
+      }
+      search_library: {
+        Args: { result_limit?: number; search_query: string }
+        Returns: Json
+      }
+      search_text: {
+        Args: { value: string }
+        Returns: string
+      }
+      search_tsquery: {
+        Args: { search_query: string }
+        Returns: unknown
+      }
+      storage_bytes_available: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      trash_albums: {
+        Args: { album_ids: string[] }
+        Returns: undefined
+      }
+      trash_photos: {
+        Args: { photo_ids: string[] }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,28 @@
+import type { PhotoSource } from "@/lib/thumbnails";
+
+export type AlbumCoverStyle = "single" | "mosaic";
+
+export const ALBUM_COVER_STYLE_OPTIONS: { value: AlbumCoverStyle; label: string }[] = [
+  { value: "single", label: "Foto única" },
+  { value: "mosaic", label: "Mosaico 2x2" },
+];
+
+export interface AlbumCoverPhoto extends PhotoSource {
+  id: string;
+}
+
+/**
+ * Picks the photos shown on an album cover. `photos` must be ordered newest
+ * first; the chosen cover falls back to the newest photo when unset or no
+ * longer visible (e.g. trashed), and leads the mosaic when there is one.
+ */
+export const getAlbumCoverPhotos = <T extends AlbumCoverPhoto>(
+  album: { cover_photo_id: string | null; cover_style: string },
+  photos: T[]
+): T[] => {
+  const cover = photos.find((photo) => photo.id === album.cover_photo_id) ?? photos[0];
+  if (!cover) return [];
+  if (album.cover_style !== "mosaic" || photos.length < 4) return [cover];
+
+  return [cover, ...photos.filter((photo) => photo.id !== cover.id).slice(0, 3)];
+};
@@ -0,0 +1,24 @@
+export type AlbumMemberRole = "viewer" | "contributor" | "editor";
+
+export type AlbumRole = "owner" | AlbumMemberRole;
+
+export const ALBUM_MEMBER_ROLE_OPTIONS: { value: AlbumMemberRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Leitor", description: "Pode ver as fotos" },
+  { value: "contributor", label: "Colaborador", description: "Pode adicionar as próprias fotos" },
+  { value: "editor", label: "Editor", description: "Pode adicionar, remover e reordenar fotos" },
+];
+
+// These mirror the can_add_to_album / can_edit_album checks in the database.
+export const canAddToAlbum = (role: AlbumRole | null) =>
+  role === "owner" || role === "editor" || role === "contributor";
+
+export const canEditAlbum = (role: AlbumRole | null) => role === "owner" || role === "editor";
+
+const INVITE_ERROR_MESSAGES: Record<string, string> = {
+  user_not_found: "Nenhum usuário cadastrado com este email.",
+  cannot_invite_self: "Você já é o dono deste álbum.",
+  album_not_found: "Álbum não encontrado.",
+};
+
+/** `invite_album_member` raises one of the codes above as its error message. */
+export const inviteErrorMessage = (message: string) => INVITE_ERROR_MESSAGES[message] ?? message;
@@ -0,0 +1,46 @@
+export type AlbumSort = "manual" | "taken" | "added" | "title";
+
+export const ALBUM_SORT_OPTIONS: { value: AlbumSort; label: string }[] = [
+  { value: "manual", label: "Ordem manual" },
+  { value: "taken", label: "Data de captura" },
+  { value: "added", label: "Data de inclusão" },
+  { value: "title", label: "Título" },
+];
+
+export interface AlbumEntry {
+  position: number;
+  added_at: string;
+  taken_at: string;
+  title: string | null;
+}
+
+/**
+ * Orders an album's photos by its sort mode. Albums read like a story, so
+ * dates run oldest first, unlike the library.
+ */
+export const sortAlbumPhotos = <T extends AlbumEntry>(photos: T[], sort: string): T[] => {
+  const sorted = [...photos];
+  switch (sort as AlbumSort) {
+    case "taken":
+      return sorted.sort((a, b) => Date.parse(a.taken_at) - Date.parse(b.taken_at));
+    case "added":
+      return sorted.sort((a, b) => Date.parse(a.added_at) - Date.parse(b.added_at));
+    case "title":
+      // Untitled photos go last, as in the library.
+      return sorted.sort((a, b) => {
+        if (!a.title) return b.title ? 1 : 0;
+        if (!b.title) return -1;
+        return a.title.localeCompare(b.title, "pt-BR");
+      });
+    default:
+      return sorted.sort((a, b) => a.position - b.position);
+  }
+};
+
+/** Moves the item at `from` to `to`, returning a new array. */
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
@@ -0,0 +1,145 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Difference hash: a 9x8 grayscale thumbnail gives 8 comparisons per row, 64 bits.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** Hashes that differ in at most this many bits are treated as the same image. */
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+export type HashedPhoto = Pick<Tables<"photos">, "id" | "content_hash" | "duplicate_content_hash" | "perceptual_hash">;
+
+export interface DuplicateGroup<T extends HashedPhoto> {
+  /** "exact" when every photo shares one content hash, "similar" otherwise. */
+  kind: "exact" | "similar";
+  photos: T[];
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/** SHA-256 of the file contents, as lowercase hex. */
+export const computeContentHash = async (blob: Blob) =>
+  toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())));
+
+/**
+ * Computes a 64-bit difference hash (16 hex chars) that survives re-encoding
+ * and resizing, or null when the browser cannot decode the image.
+ */
+export const computePerceptualHash = async (blob: Blob): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(blob, {
+      resizeWidth: HASH_WIDTH,
+      resizeHeight: HASH_HEIGHT,
+      resizeQuality: "medium",
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    bitmap.close();
+
+    const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const gray = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+    };
+
+    const bytes = new Uint8Array(HASH_HEIGHT);
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        if (gray(x, y) > gray(x + 1, y)) bytes[y] |= 1 << x;
+      }
+    }
+    return toHex(bytes);
+  } catch {
+    return null;
+  }
+};
+
+const popCount = (value: number) => {
+  let count = 0;
+  for (let v = value; v; v &= v - 1) count++;
+  return count;
+};
+
+/** Number of differing bits between two perceptual hashes of equal length. */
+export const hammingDistance = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    distance += popCount(parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16));
+  }
+  return distance;
+};
+
+/** The file's SHA-256, whether it was stored as the unique hash or as a known copy. */
+const contentKey = (photo: HashedPhoto) => photo.content_hash ?? photo.duplicate_content_hash;
+
+// Hashes within NEAR_DUPLICATE_DISTANCE bits agree on at least one of their
+// eight bytes (pigeonhole, as long as the distance stays below 8), so only
+// photos sharing a byte at the same position need comparing.
+const HASH_SEGMENT_LENGTH = 2;
+
+/**
+ * Groups photos that are byte-identical or whose perceptual hashes are within
+ * NEAR_DUPLICATE_DISTANCE. Photos keep their input order inside each group.
+ */
+export const findDuplicateGroups = <T extends HashedPhoto>(photos: T[]): DuplicateGroup<T>[] => {
+  const parent = photos.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  const byContent = new Map<string, number>();
+  photos.forEach((photo, i) => {
+    const key = contentKey(photo);
+    if (!key) return;
+    const first = byContent.get(key);
+    if (first === undefined) byContent.set(key, i);
+    else union(first, i);
+  });
+
+  const buckets = new Map<string, number[]>();
+  photos.forEach((photo, i) => {
+    const hash = photo.perceptual_hash;
+    if (!hash) return;
+    for (let start = 0; start < hash.length; start += HASH_SEGMENT_LENGTH) {
+      const key = `${start}:${hash.slice(start, start + HASH_SEGMENT_LENGTH)}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+  });
+  buckets.forEach((bucket) => {
+    for (let a = 0; a < bucket.length; a++) {
+      for (let b = a + 1; b < bucket.length; b++) {
+        const i = bucket[a];
+        const j = bucket[b];
+        if (find(i) === find(j)) continue;
+        if (hammingDistance(photos[i].perceptual_hash!, photos[j].perceptual_hash!) <= NEAR_DUPLICATE_DISTANCE) {
+          union(i, j);
+        }
+      }
+    }
+  });
+
+  const groups = new Map<number, T[]>();
+  photos.forEach((photo, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(photo);
+  });
+
+  return Array.from(groups.values())
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      kind: group.every((photo) => contentKey(photo) && contentKey(photo) === contentKey(group[0]))
+        ? "exact"
+        : "similar",
+      photos: group,
+    }));
+};
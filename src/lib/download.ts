@@ -0,0 +1,59 @@
+import { zip } from "fflate";
+import { supabase } from "@/integrations/supabase/client";
+import { PHOTOS_BUCKET } from "@/lib/upload";
+
+interface DownloadablePhoto {
+  path: string;
+  title: string | null;
+}
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const href = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(href), 0);
+};
+
+const fileNameFor = (photo: DownloadablePhoto, used: Set<string>) => {
+  const ext = photo.path.split(".").pop() || "jpg";
+  const base = (photo.title || photo.path.split("/").pop()?.replace(/\.[^.]+$/, "") || "foto")
+    .replace(/[\\/:*?"<>|]+/g, "-")
+    .trim();
+
+  let name = `${base}.${ext}`;
+  for (let i = 2; used.has(name); i++) name = `${base} (${i}).${ext}`;
+  used.add(name);
+  return name;
+};
+
+const fetchBytes = async (path: string) => {
+  const { data, error } = await supabase.storage.from(PHOTOS_BUCKET).download(path);
+  if (error) throw new Error(`Falha ao baixar ${path}`);
+  return new Uint8Array(await data.arrayBuffer());
+};
+
+/**
+ * Downloads one photo as-is, or several bundled into a single zip. Originals
+ * are already compressed, so entries are stored without recompression.
+ */
+export const downloadPhotos = async (photos: DownloadablePhoto[]) => {
+  const used = new Set<string>();
+
+  if (photos.length === 1) {
+    const bytes = await fetchBytes(photos[0].path);
+    saveBlob(new Blob([bytes]), fileNameFor(photos[0], used));
+    return;
+  }
+
+  const entries: Record<string, [Uint8Array, { level: 0 }]> = {};
+  for (const photo of photos) {
+    entries[fileNameFor(photo, used)] = [await fetchBytes(photo.path), { level: 0 }];
+  }
+
+  const archive = await new Promise<Uint8Array>((resolve, reject) =>
+    zip(entries, (error, data) => (error ? reject(error) : resolve(data)))
+  );
+  saveBlob(new Blob([archive], { type: "application/zip" }), `fotos-${photos.length}.zip`);
+};
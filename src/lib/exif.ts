@@ -0,0 +1,62 @@
+import exifr from "exifr";
+import type { TablesInsert } from "@/integrations/supabase/types";
+
+export type ExifMetadata = Omit<TablesInsert<"photo_metadata">, "photo_id" | "created_at">;
+
+const toNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const toText = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+/**
+ * Reads EXIF from JPEG, HEIC and TIFF files. Returns null when the file carries
+ * no metadata or cannot be parsed; the upload continues without it.
+ */
+export const extractExif = async (file: File): Promise<ExifMetadata | null> => {
+  let tags: Record<string, unknown> | undefined;
+  try {
+    tags = await exifr.parse(file, { translateValues: false });
+  } catch {
+    return null;
+  }
+  if (!tags) return null;
+
+  const takenAt = tags.DateTimeOriginal ?? tags.CreateDate;
+  const orientation = toNumber(tags.Orientation);
+  // Orientations 5-8 are rotated by 90°, so the stored pixel grid is transposed.
+  const rotated = orientation !== null && orientation >= 5;
+  const rawWidth = toNumber(tags.ExifImageWidth) ?? toNumber(tags.ImageWidth);
+  const rawHeight = toNumber(tags.ExifImageHeight) ?? toNumber(tags.ImageHeight);
+
+  return {
+    taken_at: takenAt instanceof Date && !isNaN(takenAt.getTime()) ? takenAt.toISOString() : null,
+    camera_make: toText(tags.Make),
+    camera_model: toText(tags.Model),
+    lens_model: toText(tags.LensModel),
+    exposure_time: toNumber(tags.ExposureTime),
+    f_number: toNumber(tags.FNumber),
+    iso: toNumber(tags.ISO),
+    focal_length: toNumber(tags.FocalLength),
+    width: rotated ? rawHeight : rawWidth,
+    height: rotated ? rawWidth : rawHeight,
+    orientation,
+    latitude: toNumber(tags.latitude),
+    longitude: toNumber(tags.longitude),
+    altitude: toNumber(tags.GPSAltitude),
+  };
+};
+
+export const formatExposure = (seconds: number) =>
+  seconds >= 1 ? `${seconds} s` : `1/${Math.round(1 / seconds)} s`;
+
+export const orientationLabel: Record<number, string> = {
+  1: "Normal",
+  2: "Espelhada",
+  3: "Girada 180°",
+  4: "Espelhada e girada 180°",
+  5: "Espelhada e girada 90°",
+  6: "Girada 90° (horário)",
+  7: "Espelhada e girada 270°",
+  8: "Girada 90° (anti-horário)",
+};
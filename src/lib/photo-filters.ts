@@ -0,0 +1,137 @@
+import { format } from "date-fns";
+import { matchesTagFilter, Tag, TagFilterMode } from "@/lib/tags";
+
+export type PhotoOrientation = "landscape" | "portrait" | "square";
+
+export const ORIENTATION_OPTIONS: { value: PhotoOrientation; label: string }[] = [
+  { value: "landscape", label: "Paisagem" },
+  { value: "portrait", label: "Retrato" },
+  { value: "square", label: "Quadrada" },
+];
+
+export interface PhotoFilters {
+  /** Inclusive capture date bounds, as `yyyy-MM-dd` in local time. */
+  from: string | null;
+  to: string | null;
+  camera: string | null;
+  orientation: PhotoOrientation | null;
+  /** MIME type, e.g. `image/jpeg`. */
+  type: string | null;
+  unfiled: boolean;
+  untitled: boolean;
+  tags: string[];
+  tagMode: TagFilterMode;
+}
+
+export const EMPTY_PHOTO_FILTERS: PhotoFilters = {
+  from: null,
+  to: null,
+  camera: null,
+  orientation: null,
+  type: null,
+  unfiled: false,
+  untitled: false,
+  tags: [],
+  tagMode: "and",
+};
+
+/** Shape of the `get_photo_filter_options` RPC result: the values in the user's library, sorted. */
+export interface PhotoFilterOptions {
+  cameras: string[];
+  types: string[];
+}
+
+interface FilterablePhoto {
+  taken_at: string;
+  title: string | null;
+  width: number | null;
+  height: number | null;
+  mime_type: string | null;
+  camera_model: string | null;
+  album_count: number;
+  tags: Tag[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const FILTER_PARAMS = ["from", "to", "camera", "orientation", "type", "unfiled", "untitled", "tags", "tagMode"];
+
+/** Reads filters from the query string, ignoring malformed values so old bookmarks still open. */
+export const parsePhotoFilters = (params: URLSearchParams): PhotoFilters => {
+  const date = (key: string) => {
+    const value = params.get(key);
+    return value && DATE_PATTERN.test(value) ? value : null;
+  };
+  const orientation = params.get("orientation");
+
+  return {
+    from: date("from"),
+    to: date("to"),
+    camera: params.get("camera") || null,
+    orientation: ORIENTATION_OPTIONS.some((option) => option.value === orientation)
+      ? (orientation as PhotoOrientation)
+      : null,
+    type: params.get("type") || null,
+    unfiled: params.get("unfiled") === "1",
+    untitled: params.get("untitled") === "1",
+    tags: (params.get("tags") || "").split(",").filter(Boolean),
+    tagMode: params.get("tagMode") === "or" ? "or" : "and",
+  };
+};
+
+/**
+ * Returns a copy of `params` with the filter keys replaced by `filters`.
+ * Defaults are left out so an unfiltered view keeps a clean URL.
+ */
+export const writePhotoFilters = (params: URLSearchParams, filters: PhotoFilters) => {
+  const next = new URLSearchParams(params);
+  FILTER_PARAMS.forEach((key) => next.delete(key));
+
+  if (filters.from) next.set("from", filters.from);
+  if (filters.to) next.set("to", filters.to);
+  if (filters.camera) next.set("camera", filters.camera);
+  if (filters.orientation) next.set("orientation", filters.orientation);
+  if (filters.type) next.set("type", filters.type);
+  if (filters.unfiled) next.set("unfiled", "1");
+  if (filters.untitled) next.set("untitled", "1");
+  if (filters.tags.length > 0) {
+    next.set("tags", filters.tags.join(","));
+    if (filters.tagMode === "or") next.set("tagMode", "or");
+  }
+  return next;
+};
+
+/** Number of filters in use, counting the date range and the tag filter once each. */
+export const countActiveFilters = (filters: PhotoFilters) =>
+  [
+    filters.from || filters.to,
+    filters.camera,
+    filters.orientation,
+    filters.type,
+    filters.unfiled,
+    filters.untitled,
+    filters.tags.length > 0,
+  ].filter(Boolean).length;
+
+export const getOrientation = (width: number | null, height: number | null): PhotoOrientation | null => {
+  if (!width || !height) return null;
+  if (width === height) return "square";
+  return width > height ? "landscape" : "portrait";
+};
+
+/** Short label for a MIME type, e.g. `image/jpeg` → `JPEG`. */
+export const fileTypeLabel = (mimeType: string) => mimeType.replace(/^image\//, "").toUpperCase();
+
+export const matchesPhotoFilters = (photo: FilterablePhoto, filters: PhotoFilters) => {
+  if (filters.from || filters.to) {
+    const day = format(new Date(photo.taken_at), "yyyy-MM-dd");
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+  }
+  if (filters.camera && photo.camera_model !== filters.camera) return false;
+  if (filters.orientation && getOrientation(photo.width, photo.height) !== filters.orientation) return false;
+  if (filters.type && photo.mime_type !== filters.type) return false;
+  if (filters.unfiled && photo.album_count > 0) return false;
+  if (filters.untitled && photo.title?.trim()) return false;
+  return matchesTagFilter(photo.tags, filters.tags, filters.tagMode);
+};
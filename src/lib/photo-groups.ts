@@ -0,0 +1,82 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+export type PhotoSort = "taken" | "uploaded" | "title";
+
+export const PHOTO_SORT_OPTIONS: { value: PhotoSort; label: string }[] = [
+  { value: "taken", label: "Data de captura" },
+  { value: "uploaded", label: "Data de envio" },
+  { value: "title", label: "Título" },
+];
+
+export const PHOTO_SORT_ORDER: Record<
+  PhotoSort,
+  { column: "taken_at" | "created_at" | "title"; ascending: boolean }
+> = {
+  taken: { column: "taken_at", ascending: false },
+  uploaded: { column: "created_at", ascending: false },
+  title: { column: "title", ascending: true },
+};
+
+interface DatedPhoto {
+  taken_at: string;
+  created_at: string;
+  title: string | null;
+}
+
+export interface PhotoDayGroup<T> {
+  key: string;
+  label: string;
+  photos: T[];
+}
+
+export interface PhotoMonthGroup<T> {
+  key: string;
+  label: string;
+  days: PhotoDayGroup<T>[];
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const sortDate = (photo: DatedPhoto, sort: PhotoSort) =>
+  sort === "uploaded" ? photo.created_at : photo.taken_at;
+
+export const comparePhotos = (sort: PhotoSort) => (a: DatedPhoto, b: DatedPhoto) => {
+  if (sort === "title") {
+    // Untitled photos go last, matching the query's nullsFirst: false.
+    if (!a.title) return b.title ? 1 : 0;
+    if (!b.title) return -1;
+    return a.title.localeCompare(b.title, "pt-BR");
+  }
+  return Date.parse(sortDate(b, sort)) - Date.parse(sortDate(a, sort));
+};
+
+/**
+ * Splits an already sorted list into month sections, each with day sub-sections,
+ * using the date the current sort is based on.
+ */
+export const groupPhotosByDate = <T extends DatedPhoto>(photos: T[], sort: PhotoSort) => {
+  const months: PhotoMonthGroup<T>[] = [];
+
+  for (const photo of photos) {
+    const date = new Date(sortDate(photo, sort));
+    const monthKey = format(date, "yyyy-MM");
+    const dayKey = format(date, "yyyy-MM-dd");
+
+    let month = months[months.length - 1];
+    if (!month || month.key !== monthKey) {
+      month = { key: monthKey, label: capitalize(format(date, "MMMM yyyy", { locale: ptBR })), days: [] };
+      months.push(month);
+    }
+
+    let day = month.days[month.days.length - 1];
+    if (!day || day.key !== dayKey) {
+      day = { key: dayKey, label: `${date.getDate()} de ${capitalize(format(date, "MMMM", { locale: ptBR }))}`, photos: [] };
+      month.days.push(day);
+    }
+
+    day.photos.push(photo);
+  }
+
+  return months;
+};
@@ -0,0 +1,39 @@
+import { addDays, parse } from "date-fns";
+import type { Database } from "@/integrations/supabase/types";
+import { PhotoFilters } from "@/lib/photo-filters";
+import { PhotoSort } from "@/lib/photo-groups";
+
+export type ListPhotosArgs = Database["public"]["Functions"]["list_photos"]["Args"];
+
+export const PHOTO_PAGE_SIZE = 60;
+
+interface CursorPhoto {
+  id: string;
+  taken_at: string;
+  created_at: string;
+  title: string | null;
+}
+
+/** Arguments that make `list_photos` continue right after `photo`. */
+export const photoPageCursor = (photo: CursorPhoto, sort: PhotoSort): ListPhotosArgs => ({
+  after_id: photo.id,
+  after_value: sort === "title" ? photo.title : sort === "uploaded" ? photo.created_at : photo.taken_at,
+});
+
+const startOfDay = (day: string) => parse(day, "yyyy-MM-dd", new Date());
+
+/**
+ * Maps library filters onto `list_photos` arguments. Filter dates are local
+ * days, so the range is sent as the instants the user's days start and end.
+ */
+export const photoFilterArgs = (filters: PhotoFilters): ListPhotosArgs => ({
+  taken_from: filters.from ? startOfDay(filters.from).toISOString() : undefined,
+  taken_to: filters.to ? addDays(startOfDay(filters.to), 1).toISOString() : undefined,
+  camera: filters.camera ?? undefined,
+  orientation: filters.orientation ?? undefined,
+  mime: filters.type ?? undefined,
+  only_unfiled: filters.unfiled || undefined,
+  only_untitled: filters.untitled || undefined,
+  tag_ids: filters.tags.length > 0 ? filters.tags : undefined,
+  match_all_tags: filters.tags.length > 0 ? filters.tagMode === "and" : undefined,
+});
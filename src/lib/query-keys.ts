@@ -0,0 +1,28 @@
+import { PhotoFilters } from "@/lib/photo-filters";
+import { PhotoSort } from "@/lib/photo-groups";
+
+/**
+ * Every TanStack Query key in the app. Keys are nested so a prefix such as
+ * `queryKeys.photos.all` invalidates every query below it.
+ */
+export const queryKeys = {
+  photos: {
+    all: ["photos"] as const,
+    lists: () => [...queryKeys.photos.all, "list"] as const,
+    list: (userId: string, sort: PhotoSort, filters: PhotoFilters) =>
+      [...queryKeys.photos.lists(), userId, sort, filters] as const,
+    counts: () => [...queryKeys.photos.all, "count"] as const,
+    count: (userId: string, filters: PhotoFilters) => [...queryKeys.photos.counts(), userId, filters] as const,
+    options: () => [...queryKeys.photos.all, "options"] as const,
+    filterOptions: (userId: string) => [...queryKeys.photos.options(), userId] as const,
+  },
+  albums: {
+    all: ["albums"] as const,
+    list: () => [...queryKeys.albums.all, "list"] as const,
+    sharedIds: (userId: string) => [...queryKeys.albums.all, "shared-ids", userId] as const,
+    details: () => [...queryKeys.albums.all, "detail"] as const,
+    detail: (albumId: string) => [...queryKeys.albums.details(), albumId] as const,
+    photos: (albumId: string) => [...queryKeys.albums.detail(albumId), "photos"] as const,
+  },
+  profile: (userId: string) => ["profile", userId] as const,
+};
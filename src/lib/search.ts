@@ -0,0 +1,76 @@
+import type { PhotoSource } from "@/lib/thumbnails";
+
+export interface PhotoSearchResult extends PhotoSource {
+  id: string;
+  title: string | null;
+  description: string | null;
+  tags: string[];
+}
+
+export interface AlbumSearchResult {
+  id: string;
+  name: string;
+  description: string | null;
+  user_id: string;
+}
+
+/** Shape of the `search_library` RPC result. */
+export interface SearchResults {
+  photos: PhotoSearchResult[];
+  albums: AlbumSearchResult[];
+}
+
+export const EMPTY_SEARCH_RESULTS: SearchResults = { photos: [], albums: [] };
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Lowercased and without accents, keeping a map back to the original indices.
+const fold = (text: string) => {
+  let folded = "";
+  const indices: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const chars = text[i].normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+    for (const char of chars) {
+      folded += char;
+      indices.push(i);
+    }
+  }
+  return { folded, indices };
+};
+
+export const getSearchWords = (query: string) =>
+  fold(query)
+    .folded.split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+/**
+ * Splits `text` into segments, marking words that start with any word of the
+ * query. Matching ignores case and accents, like the database search does.
+ */
+export const highlightMatches = (text: string, query: string): TextSegment[] => {
+  const words = getSearchWords(query);
+  if (words.length === 0) return [{ text, match: false }];
+
+  const { folded, indices } = fold(text);
+  const marked = new Array<boolean>(text.length).fill(false);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(${words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`,
+    "gu"
+  );
+
+  for (const match of folded.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    for (let i = start; i < start + match[0].length; i++) marked[indices[i]] = true;
+  }
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) last.text += text[i];
+    else segments.push({ text: text[i], match: marked[i] });
+  }
+  return segments;
+};
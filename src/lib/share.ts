@@ -0,0 +1,66 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { createSignedUrlCache } from "@/lib/signed-urls";
+import { PHOTOS_BUCKET } from "@/lib/upload";
+import type { PhotoSource } from "@/lib/thumbnails";
+
+export interface SharedPhoto extends PhotoSource {
+  id: string;
+  title: string | null;
+  description: string | null;
+  taken_at: string;
+  position: number;
+  added_at: string;
+}
+
+export interface SharedAlbum {
+  album: {
+    name: string;
+    description: string | null;
+    sort_mode: string;
+  };
+  photos: SharedPhoto[];
+}
+
+export type ShareError = "share_not_found" | "share_expired" | "share_password_required" | "share_password_invalid";
+
+export const SHARE_ERROR_MESSAGES: Record<ShareError, string> = {
+  share_not_found: "Este link não existe ou foi revogado.",
+  share_expired: "Este link expirou.",
+  share_password_required: "Este álbum é protegido por senha.",
+  share_password_invalid: "Senha incorreta.",
+};
+
+/** `get_shared_album` raises one of the codes above as its error message. */
+export const toShareError = (message: string): ShareError =>
+  message in SHARE_ERROR_MESSAGES ? (message as ShareError) : "share_not_found";
+
+export const SHARE_EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: "never", label: "Nunca expira", days: null },
+  { value: "1", label: "1 dia", days: 1 },
+  { value: "7", label: "7 dias", days: 7 },
+  { value: "30", label: "30 dias", days: 30 },
+];
+
+export const getShareUrl = (token: string) => `${window.location.origin}/s/${token}`;
+
+/**
+ * Signed URLs for a share link's visitors. They are anonymous, so the storage
+ * policy authorizes them through the link sent as request headers.
+ */
+export const createShareUrlCache = (token: string, password?: string) => {
+  const client = createClient<Database>(
+    import.meta.env.VITE_SUPABASE_URL,
+    import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    {
+      global: {
+        headers: {
+          "x-share-token": token,
+          ...(password ? { "x-share-password": password } : {}),
+        },
+      },
+      auth: { persistSession: false, autoRefreshToken: false, storageKey: `share-${token}` },
+    }
+  );
+  return createSignedUrlCache(PHOTOS_BUCKET, client);
+};
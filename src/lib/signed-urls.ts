@@ -0,0 +1,118 @@
+import { createContext } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { PHOTOS_BUCKET } from "@/lib/upload";
+
+// Signed URLs live for an hour and are renewed a few minutes before expiry.
+export const SIGNED_URL_TTL = 60 * 60;
+export const SIGNED_URL_REFRESH_MARGIN = 5 * 60 * 1000;
+// Paths that could not be signed are tried again after this long.
+const FAILED_RETRY_DELAY = 30 * 1000;
+
+// Paths requested in the same tick are signed in one request, in chunks.
+const MAX_BATCH = 200;
+
+interface SignedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+export interface SignedUrls {
+  urls: Record<string, string>;
+  /**
+   * Earliest expiry among the returned URLs, in ms since the epoch. Paths
+   * that failed to sign count as expiring soon, so callers retry them.
+   */
+  expiresAt: number;
+}
+
+export interface SignedUrlCache {
+  peek: (paths: string[]) => Record<string, string>;
+  sign: (paths: string[]) => Promise<SignedUrls>;
+}
+
+/**
+ * Creates a cache of signed URLs for one bucket, signed with `client` (which
+ * carries the session or share-link headers that storage policies check).
+ */
+export const createSignedUrlCache = (bucket: string, client: SupabaseClient = supabase): SignedUrlCache => {
+  const cache = new Map<string, SignedUrl>();
+  const inflight = new Map<string, Promise<SignedUrl | null>>();
+  let queue: { path: string; resolve: (value: SignedUrl | null) => void }[] = [];
+
+  const isFresh = (entry: SignedUrl | undefined) =>
+    !!entry && entry.expiresAt - SIGNED_URL_REFRESH_MARGIN > Date.now();
+
+  const flush = async () => {
+    const batch = queue;
+    queue = [];
+
+    for (let i = 0; i < batch.length; i += MAX_BATCH) {
+      const chunk = batch.slice(i, i + MAX_BATCH);
+      const expiresAt = Date.now() + SIGNED_URL_TTL * 1000;
+      const { data } = await client.storage
+        .from(bucket)
+        .createSignedUrls(chunk.map((item) => item.path), SIGNED_URL_TTL);
+
+      const signed = new Map(
+        (data || []).filter((item) => item.signedUrl && !item.error).map((item) => [item.path, item.signedUrl])
+      );
+      for (const { path, resolve } of chunk) {
+        const url = signed.get(path);
+        const entry = url ? { url, expiresAt } : null;
+        if (entry) cache.set(path, entry);
+        inflight.delete(path);
+        resolve(entry);
+      }
+    }
+  };
+
+  const request = (path: string) => {
+    const pending = inflight.get(path);
+    if (pending) return pending;
+
+    const promise = new Promise<SignedUrl | null>((resolve) => {
+      if (queue.length === 0) setTimeout(flush, 0);
+      queue.push({ path, resolve });
+    });
+    inflight.set(path, promise);
+    return promise;
+  };
+
+  const peek = (paths: string[]) => {
+    const urls: Record<string, string> = {};
+    for (const path of paths) {
+      const entry = cache.get(path);
+      if (isFresh(entry)) urls[path] = entry!.url;
+    }
+    return urls;
+  };
+
+  const sign = async (paths: string[]) => {
+    const entries = await Promise.all(
+      paths.map((path) => {
+        const entry = cache.get(path);
+        return isFresh(entry) ? entry! : request(path);
+      })
+    );
+
+    const urls: Record<string, string> = {};
+    let expiresAt = Infinity;
+    entries.forEach((entry, i) => {
+      if (!entry) {
+        expiresAt = Math.min(expiresAt, Date.now() + SIGNED_URL_REFRESH_MARGIN + FAILED_RETRY_DELAY);
+        return;
+      }
+      urls[paths[i]] = entry.url;
+      expiresAt = Math.min(expiresAt, entry.expiresAt);
+    });
+    return { urls, expiresAt };
+  };
+
+  return { peek, sign };
+};
+
+export const photoUrlCache = createSignedUrlCache(PHOTOS_BUCKET);
+
+/** The cache `useSignedUrls` reads from; share pages provide their own. */
+export const SignedUrlContext = createContext<SignedUrlCache>(photoUrlCache);
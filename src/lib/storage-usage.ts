@@ -0,0 +1,46 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type LargestPhoto = Pick<
+  Tables<"photos">,
+  | "id"
+  | "title"
+  | "path"
+  | "small_path"
+  | "medium_path"
+  | "large_path"
+  | "small_width"
+  | "medium_width"
+  | "large_width"
+  | "size_bytes"
+  | "mime_type"
+  | "width"
+  | "height"
+>;
+
+export interface MonthlyUsage {
+  /** Month the photos were taken, as YYYY-MM. Trashed photos are only in `trash_bytes`. */
+  month: string;
+  bytes: number;
+  photos: number;
+}
+
+/** Shape of the `get_storage_usage` RPC result. Trashed photos count towards `used_bytes`. */
+export interface StorageUsage {
+  used_bytes: number;
+  trash_bytes: number;
+  quota_bytes: number;
+  photo_count: number;
+  largest: LargestPhoto[];
+  by_month: MonthlyUsage[];
+}
+
+export const QUOTA_EXCEEDED_MESSAGE =
+  "Espaço de armazenamento esgotado. Exclua fotos ou esvazie a lixeira para liberar espaço.";
+
+const UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+export const formatBytes = (bytes: number) => {
+  const exponent = bytes > 0 ? Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), UNITS.length - 1) : 0;
+  const value = bytes / 1024 ** exponent;
+  return `${value.toLocaleString("pt-BR", { maximumFractionDigits: exponent === 0 ? 0 : 1 })} ${UNITS[exponent]}`;
+};
@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Tag = Pick<Tables<"tags">, "id" | "name">;
+
+export type TagFilterMode = "and" | "or";
+
+export const TAG_FILTER_MODE_OPTIONS: { value: TagFilterMode; label: string }[] = [
+  { value: "and", label: "Todas as tags" },
+  { value: "or", label: "Qualquer tag" },
+];
+
+export const MAX_TAG_LENGTH = 50;
+
+// Mirrors the normalization done by `ensure_tags`.
+export const normalizeTagName = (name: string) => name.trim().replace(/\s+/g, " ");
+
+export const sortTags = <T extends Tag>(tags: T[]) => [...tags].sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+
+/** Whether a photo with `photoTags` passes a filter on `tagIds` (an empty filter passes everything). */
+export const matchesTagFilter = (photoTags: Tag[], tagIds: string[], mode: TagFilterMode) => {
+  if (tagIds.length === 0) return true;
+  const ids = new Set(photoTags.map((tag) => tag.id));
+  return mode === "and" ? tagIds.every((id) => ids.has(id)) : tagIds.some((id) => ids.has(id));
+};
+
+/** Flattens the `photo_tags(tags(id, name))` embed into a sorted tag list. */
+export const tagsFromEmbed = (photoTags: { tags: Tag | null }[] | null | undefined) =>
+  sortTags((photoTags || []).map((photoTag) => photoTag.tags).filter(Boolean) as Tag[]);
+
+/** Links every photo to every tag; links that already exist are kept. */
+export const addPhotoTags = async (photoIds: string[], tagIds: string[]) => {
+  const rows = photoIds.flatMap((photo_id) => tagIds.map((tag_id) => ({ photo_id, tag_id })));
+  if (rows.length === 0) return null;
+  const { error } = await supabase.from("photo_tags").upsert(rows, { ignoreDuplicates: true });
+  return error;
+};
+
+export const removePhotoTags = async (photoIds: string[], tagIds: string[]) => {
+  const { error } = await supabase.from("photo_tags").delete().in("photo_id", photoIds).in("tag_id", tagIds);
+  return error;
+};
@@ -0,0 +1,134 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { ResizeRequest, ResizeResponse } from "@/workers/resize.worker";
+
+export const PHOTO_VARIANTS = {
+  small: 320,
+  medium: 960,
+  large: 1920,
+} as const;
+
+export type PhotoVariant = keyof typeof PHOTO_VARIANTS;
+/** A resized copy with its real pixel width, which srcset needs. */
+export interface GeneratedVariant {
+  blob: Blob;
+  width: number;
+}
+
+export type PhotoVariants = Record<PhotoVariant, GeneratedVariant>;
+
+export type PhotoSource = Pick<
+  Tables<"photos">,
+  "path" | "small_path" | "medium_path" | "large_path" | "small_width" | "medium_width" | "large_width"
+>;
+
+const VARIANT_TYPE = "image/jpeg";
+const VARIANT_QUALITY = 0.82;
+
+export const VARIANT_EXTENSION = "jpg";
+
+let worker: Worker | null = null;
+const pending = new Map<string, (response: ResizeResponse) => void>();
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/resize.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (e: MessageEvent<ResizeResponse>) => {
+      pending.get(e.data.id)?.(e.data);
+      pending.delete(e.data.id);
+    };
+    worker.onerror = (e) => {
+      pending.forEach((settle, id) => settle({ id, error: e.message }));
+      pending.clear();
+    };
+  }
+  return worker;
+};
+
+const resizeInWorker = (file: File) =>
+  new Promise<PhotoVariants>((resolve, reject) => {
+    const id = crypto.randomUUID();
+    pending.set(id, ({ variants, error }) =>
+      variants ? resolve(variants as PhotoVariants) : reject(new Error(error))
+    );
+    const request: ResizeRequest = {
+      id,
+      file,
+      sizes: Object.entries(PHOTO_VARIANTS),
+      type: VARIANT_TYPE,
+      quality: VARIANT_QUALITY,
+    };
+    getWorker().postMessage(request);
+  });
+
+// Used where OffscreenCanvas is missing (older Safari); runs on the main thread.
+const resizeOnMainThread = async (file: File) => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  const longestEdge = Math.max(bitmap.width, bitmap.height);
+  const variants = {} as PhotoVariants;
+
+  for (const [name, maxEdge] of Object.entries(PHOTO_VARIANTS)) {
+    const scale = Math.min(1, maxEdge / longestEdge);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Falha ao gerar miniatura"))),
+        VARIANT_TYPE,
+        VARIANT_QUALITY
+      )
+    );
+    variants[name as PhotoVariant] = { blob, width: canvas.width };
+  }
+
+  bitmap.close();
+  return variants;
+};
+
+/**
+ * Produces the resized variants for an image, or null when the browser cannot
+ * decode it (e.g. HEIC outside Safari). Callers fall back to the original.
+ */
+export const generateVariants = async (file: File): Promise<PhotoVariants | null> => {
+  try {
+    if (typeof OffscreenCanvas !== "undefined" && typeof Worker !== "undefined") {
+      return await resizeInWorker(file);
+    }
+    return await resizeOnMainThread(file);
+  } catch {
+    return null;
+  }
+};
+
+/** Displayed pixel size of an image, or null when the browser cannot decode it. */
+export const readImageSize = async (blob: Blob) => {
+  try {
+    const bitmap = await createImageBitmap(blob, { imageOrientation: "from-image" });
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return null;
+  }
+};
+
+export const getVariantPath = (originalPath: string, variant: PhotoVariant) =>
+  `${originalPath.replace(/\.[^./]+$/, "")}_${variant}.${VARIANT_EXTENSION}`;
+
+/** Storage path of the variant to show, falling back to the original. */
+export const getPhotoPath = (photo: PhotoSource, variant: PhotoVariant = "medium") =>
+  photo[`${variant}_path`] || photo.path;
+
+/**
+ * Storage paths of every generated variant with its real width, for `srcset`.
+ * Variants of a small original share a width; only the smallest is kept.
+ */
+export const getPhotoSrcSetPaths = (photo: PhotoSource) => {
+  const entries = (Object.keys(PHOTO_VARIANTS) as PhotoVariant[])
+    .filter((variant) => photo[`${variant}_path`] && photo[`${variant}_width`])
+    .map((variant) => ({ path: photo[`${variant}_path`]!, width: photo[`${variant}_width`]! }));
+  return entries.filter((entry, i) => entries.findIndex((other) => other.width === entry.width) === i);
+};
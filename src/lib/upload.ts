@@ -0,0 +1,285 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { computeContentHash, computePerceptualHash } from "@/lib/dedup";
+import { extractExif } from "@/lib/exif";
+import { QUOTA_EXCEEDED_MESSAGE } from "@/lib/storage-usage";
+import { addPhotoTags, Tag } from "@/lib/tags";
+import {
+  GeneratedVariant,
+  generateVariants,
+  getVariantPath,
+  PHOTO_VARIANTS,
+  PhotoVariant,
+  PhotoVariants,
+  readImageSize,
+} from "@/lib/thumbnails";
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_PUBLISHABLE_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+export const PHOTOS_BUCKET = "photos";
+
+export interface UploadPhotoMeta {
+  title?: string | null;
+  description?: string | null;
+  albumId?: string;
+  tags?: Tag[];
+}
+
+export interface UploadResult {
+  photo: Tables<"photos">;
+  /** True when the file was already in the library and nothing new was stored. */
+  duplicate: boolean;
+}
+
+interface UploadOptions {
+  onProgress?: (percent: number) => void;
+  /** Called once the file is stored; from then on the upload can no longer be canceled. */
+  onSaving?: () => void;
+  signal?: AbortSignal;
+}
+
+export const isImageFile = (file: File) => file.type.startsWith("image/");
+
+const readDirectory = (entry: FileSystemDirectoryEntry) =>
+  new Promise<FileSystemEntry[]>((resolve, reject) => {
+    const reader = entry.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in chunks and must be called until it is empty.
+    const readChunk = () =>
+      reader.readEntries((chunk) => {
+        if (chunk.length === 0) {
+          resolve(entries);
+        } else {
+          entries.push(...chunk);
+          readChunk();
+        }
+      }, reject);
+    readChunk();
+  });
+
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [file];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntryFiles));
+    return nested.flat();
+  }
+  return [];
+};
+
+export const getDroppedImageFiles = async (dataTransfer: DataTransfer) => {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter(Boolean) as FileSystemEntry[];
+
+  const files =
+    entries.length > 0
+      ? (await Promise.all(entries.map(collectEntryFiles))).flat()
+      : Array.from(dataTransfer.files);
+
+  return files.filter(isImageFile);
+};
+
+export const getPhotoStoragePaths = (
+  photo: Pick<Tables<"photos">, "path" | "small_path" | "medium_path" | "large_path">
+) => [photo.path, photo.small_path, photo.medium_path, photo.large_path].filter(Boolean);
+
+export const buildPhotoPath = (userId: string, file: File) => {
+  const fileExt = file.name.split(".").pop();
+  return `${userId}/${Date.now()}-${crypto.randomUUID()}.${fileExt}`;
+};
+
+// supabase-js does not report upload progress, so objects are sent straight to
+// the Storage REST endpoint with the current session token instead.
+export const uploadToStorage = async (
+  bucket: string,
+  path: string,
+  file: Blob,
+  { onProgress, signal }: UploadOptions = {}
+) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Sessão expirada. Faça login novamente.");
+
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Upload cancelado", "AbortError"));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", `${SUPABASE_URL}/storage/v1/object/${bucket}/${path}`);
+    xhr.setRequestHeader("Authorization", `Bearer ${session.access_token}`);
+    xhr.setRequestHeader("apikey", SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.setRequestHeader("cache-control", "max-age=3600");
+    if (file.type) xhr.setRequestHeader("Content-Type", file.type);
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(Math.round((e.loaded / e.total) * 100));
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(100);
+        resolve();
+        return;
+      }
+      let message = xhr.statusText || `Erro ${xhr.status}`;
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {
+        // Response body was not JSON; keep the status text.
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error("Falha de rede durante o upload"));
+    xhr.onabort = () => reject(new DOMException("Upload cancelado", "AbortError"));
+
+    signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(file);
+  });
+};
+
+type VariantColumns = Partial<Record<`${PhotoVariant}_path`, string> & Record<`${PhotoVariant}_width`, number>>;
+
+const uploadVariants = async (originalPath: string, variants: PhotoVariants | null) => {
+  const columns: VariantColumns = {};
+  if (!variants) return columns;
+
+  await Promise.all(
+    (Object.entries(variants) as [PhotoVariant, GeneratedVariant][]).map(async ([variant, { blob, width }]) => {
+      const path = getVariantPath(originalPath, variant);
+      const { error } = await supabase.storage
+        .from(PHOTOS_BUCKET)
+        .upload(path, blob, { contentType: blob.type, cacheControl: "31536000" });
+      // A missing variant only costs bandwidth: tiles fall back to the original.
+      if (!error) {
+        columns[`${variant}_path`] = path;
+        columns[`${variant}_width`] = width;
+      }
+    })
+  );
+
+  return columns;
+};
+
+const findPhotoByContentHash = async (userId: string, contentHash: string) => {
+  const { data } = await supabase
+    .from("photos")
+    .select()
+    .eq("user_id", userId)
+    .eq("content_hash", contentHash)
+    .maybeSingle();
+  return data;
+};
+
+// The file is already in the library: reuse that photo instead of storing a copy.
+const reuseExistingPhoto = async (photo: Tables<"photos">, meta: UploadPhotoMeta): Promise<UploadResult> => {
+  if (meta.albumId) {
+    const { error } = await supabase
+      .from("album_photos")
+      .upsert({ album_id: meta.albumId, photo_id: photo.id }, { ignoreDuplicates: true });
+    if (error) throw new Error(error.message);
+  }
+
+  if (meta.tags?.length) {
+    await addPhotoTags([photo.id], meta.tags.map((tag) => tag.id));
+  }
+
+  return { photo, duplicate: true };
+};
+
+export const uploadPhoto = async (
+  userId: string,
+  file: File,
+  meta: UploadPhotoMeta,
+  options: UploadOptions = {}
+): Promise<UploadResult> => {
+  const contentHash = await computeContentHash(file);
+  const existing = await findPhotoByContentHash(userId, contentHash);
+  if (existing) return reuseExistingPhoto(existing, meta);
+
+  // Checked up front to avoid a wasted upload; the database enforces it again on insert.
+  const { data: available } = await supabase.rpc("storage_bytes_available");
+  if (available !== null && file.size > available) throw new Error(QUOTA_EXCEEDED_MESSAGE);
+
+  const fileName = buildPhotoPath(userId, file);
+  const variantsPromise = generateVariants(file);
+  const exifPromise = extractExif(file);
+
+  await uploadToStorage(PHOTOS_BUCKET, fileName, file, options);
+  options.onSaving?.();
+  const variants = await variantsPromise;
+  const variantColumns = await uploadVariants(fileName, variants);
+  const storedPaths = [
+    fileName,
+    ...(Object.keys(PHOTO_VARIANTS) as PhotoVariant[]).map((variant) => variantColumns[`${variant}_path`]).filter(Boolean),
+  ];
+  const perceptualHash = await computePerceptualHash(variants?.small.blob ?? file);
+  const exif = await exifPromise;
+  const size = exif?.width && exif?.height ? { width: exif.width, height: exif.height } : await readImageSize(file);
+
+  const { data, error } = await supabase
+    .from("photos")
+    .insert({
+      user_id: userId,
+      path: fileName,
+      content_hash: contentHash,
+      perceptual_hash: perceptualHash,
+      size_bytes: file.size,
+      mime_type: file.type || null,
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+      title: meta.title || null,
+      description: meta.description || null,
+      taken_at: exif?.taken_at ?? new Date(file.lastModified || Date.now()).toISOString(),
+      ...variantColumns,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(PHOTOS_BUCKET).remove(storedPaths);
+    if (error.code === "23505") {
+      // The same file finished uploading in parallel (e.g. twice in one batch),
+      // or it sits in the trash, where the row is hidden from selects.
+      const concurrent = await findPhotoByContentHash(userId, contentHash);
+      if (concurrent) return reuseExistingPhoto(concurrent, meta);
+      throw new Error("Esta foto está na lixeira. Restaure-a para usá-la.");
+    }
+    throw new Error(error.message === "storage_quota_exceeded" ? QUOTA_EXCEEDED_MESSAGE : error.message);
+  }
+
+  if (exif) {
+    // Metadata is informational; a failed insert must not discard the photo.
+    await supabase.from("photo_metadata").insert({ photo_id: data.id, ...exif });
+  }
+
+  if (meta.tags?.length) {
+    // Like metadata, tags can be added later; a failure keeps the photo.
+    await addPhotoTags([data.id], meta.tags.map((tag) => tag.id));
+  }
+
+  if (meta.albumId) {
+    const { error: linkError } = await supabase
+      .from("album_photos")
+      .insert({ album_id: meta.albumId, photo_id: data.id });
+
+    if (linkError) {
+      // Keep the upload atomic: a photo that could not be linked is rolled back
+      // so a retry does not leave a stray copy in the library.
+      await supabase.from("photos").delete().eq("id", data.id);
+      await supabase.storage.from(PHOTOS_BUCKET).remove(storedPaths);
+      throw new Error(linkError.message);
+    }
+  }
+
+  return { photo: data, duplicate: false };
+};
@@ -1,10 +1,11 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import Header from "@/components/Header";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import { ArrowLeft, ImageIcon, Plus, Settings, Share2, Trash2, Users } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -13,150 +14,219 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Checkbox } from "@/components/ui/checkbox";
-
-interface Photo {
-  id: string;
-  url: string;
-  title: string | null;
-}
-
-interface Album {
-  id: string;
-  name: string;
-  description: string | null;
-}
+import { Badge } from "@/components/ui/badge";
+import UploadQueue from "@/components/UploadQueue";
+import PhotoImage from "@/components/PhotoImage";
+import AlbumPhotoPicker, { PickerPhoto } from "@/components/AlbumPhotoPicker";
+import DropOverlay from "@/components/DropOverlay";
+import AlbumSettingsSheet, { AlbumSettings } from "@/components/AlbumSettingsSheet";
+import AlbumShareDialog from "@/components/AlbumShareDialog";
+import AlbumMembersDialog from "@/components/AlbumMembersDialog";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import {
+  AlbumPhoto,
+  useAddPhotosToAlbum,
+  useAlbum,
+  useAlbumPhotos,
+  useRemoveAlbumPhoto,
+  useReorderAlbumPhotos,
+  useUpdateAlbum,
+} from "@/hooks/use-albums";
+import { addCachedPhotos } from "@/hooks/use-photos";
+import { useDragReorder } from "@/hooks/use-drag-reorder";
+import { sortAlbumPhotos } from "@/lib/album-sort";
+import { ALBUM_MEMBER_ROLE_OPTIONS, canAddToAlbum, canEditAlbum } from "@/lib/album-roles";
+import { queryKeys } from "@/lib/query-keys";
+import { cn } from "@/lib/utils";
 
 const AlbumDetail = () => {
   const { id } = useParams();
-  const [user, setUser] = useState<User | null>(null);
-  const [album, setAlbum] = useState<Album | null>(null);
-  const [albumPhotos, setAlbumPhotos] = useState<Photo[]>([]);
-  const [availablePhotos, setAvailablePhotos] = useState<Photo[]>([]);
-  const [selectedPhotos, setSelectedPhotos] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+  const [selectedPhotos, setSelectedPhotos] = useState<PickerPhoto[]>([]);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const { toast } = useToast();
-
-  useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
-        setUser(session.user);
-        loadAlbumData(session.user.id);
-      } else {
-        navigate("/auth");
+  // Shared albums are readable too; RLS decides what comes back.
+  const { data: detail, error: albumError } = useAlbum(id, !!user);
+  const { data: albumPhotos = [], isLoading: loading } = useAlbumPhotos(id, !!user);
+  const updateAlbumMutation = useUpdateAlbum(id ?? "");
+  const addPhotos = useAddPhotosToAlbum();
+  const removePhoto = useRemoveAlbumPhoto();
+  const reorderPhotos = useReorderAlbumPhotos(id ?? "");
+  const album = detail?.album;
+  const role = detail?.role ?? null;
+  const uploadQueue = useUploadQueue({
+    userId: user?.id,
+    onUploaded: (photo, { duplicate }) => {
+      queryClient.setQueryData<AlbumPhoto[]>(queryKeys.albums.photos(id), (prev = []) =>
+        prev.some((p) => p.id === photo.id)
+          ? prev
+          : [
+              ...prev,
+              {
+                ...photo,
+                position: Math.max(0, ...prev.map((p) => p.position)) + 1,
+                added_at: new Date().toISOString(),
+              },
+            ]
+      );
+      if (!duplicate) {
+        addCachedPhotos(queryClient, [{ ...photo, camera_model: null, album_count: 1, tags: [] }]);
+        queryClient.invalidateQueries({ queryKey: queryKeys.photos.counts() });
       }
-    });
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.list() });
+    },
+  });
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (session?.user) {
-        setUser(session.user);
-        loadAlbumData(session.user.id);
-      } else {
-        navigate("/auth");
-      }
-    });
+  const sortedPhotos = useMemo(
+    () => sortAlbumPhotos(albumPhotos, album?.sort_mode ?? "manual"),
+    [albumPhotos, album?.sort_mode]
+  );
+  const orderedIds = useMemo(() => sortedPhotos.map((photo) => photo.id), [sortedPhotos]);
 
-    return () => subscription.unsubscribe();
-  }, [navigate, id]);
+  useEffect(() => {
+    if (!albumError) return;
+    toast({
+      title: "Erro ao carregar álbum",
+      description: albumError.message,
+      variant: "destructive",
+    });
+    navigate("/albums");
+  }, [albumError, toast, navigate]);
 
-  const loadAlbumData = async (userId: string) => {
-    if (!id) return;
+  const handleAddPhotos = () => {
+    if (!id || selectedPhotos.length === 0) return;
 
-    setLoading(true);
+    const count = selectedPhotos.length;
+    addPhotos.mutate(
+      { albumId: id, photos: selectedPhotos },
+      {
+        onError: (error) =>
+          toast({
+            title: "Erro ao adicionar fotos",
+            description: error.message,
+            variant: "destructive",
+          }),
+        onSuccess: () =>
+          toast({
+            title: "Fotos adicionadas!",
+            description: `${count} foto(s) adicionada(s) ao álbum.`,
+          }),
+      }
+    );
+    setDialogOpen(false);
+    setSelectedPhotos([]);
+  };
 
-    const { data: albumData, error: albumError } = await supabase
-      .from("albums")
-      .select("*")
-      .eq("id", id)
-      .eq("user_id", userId)
-      .single();
+  const updateAlbum = async (patch: Partial<AlbumSettings>) => {
+    if (!album) return false;
 
-    if (albumError) {
+    try {
+      await updateAlbumMutation.mutateAsync(patch);
+      return true;
+    } catch (error) {
       toast({
-        title: "Erro ao carregar álbum",
-        description: albumError.message,
+        title: "Erro ao atualizar álbum",
+        description: (error as Error).message,
         variant: "destructive",
       });
-      navigate("/albums");
-      return;
+      return false;
     }
-
-    setAlbum(albumData);
-
-    const { data: photosData } = await supabase
-      .from("album_photos")
-      .select("photos(id, url, title)")
-      .eq("album_id", id);
-
-    const photos = photosData?.map((ap: any) => ap.photos).filter(Boolean) || [];
-    setAlbumPhotos(photos);
-
-    const { data: allPhotos } = await supabase
-      .from("photos")
-      .select("id, url, title")
-      .eq("user_id", userId);
-
-    const photosInAlbum = new Set(photos.map((p: Photo) => p.id));
-    const available = allPhotos?.filter((p) => !photosInAlbum.has(p.id)) || [];
-    setAvailablePhotos(available);
-
-    setLoading(false);
   };
 
-  const handleAddPhotos = async () => {
-    if (!id || selectedPhotos.length === 0) return;
-
-    const inserts = selectedPhotos.map((photoId) => ({
-      album_id: id,
-      photo_id: photoId,
-    }));
-
-    const { error } = await supabase.from("album_photos").insert(inserts);
-
-    if (error) {
+  const handleSetCover = async (photoId: string) => {
+    if (await updateAlbum({ cover_photo_id: photoId })) {
       toast({
-        title: "Erro ao adicionar fotos",
-        description: error.message,
-        variant: "destructive",
-      });
-    } else {
-      toast({
-        title: "Fotos adicionadas!",
-        description: `${selectedPhotos.length} foto(s) adicionada(s) ao álbum.`,
+        title: "Capa definida",
+        description: "A foto agora é a capa do álbum.",
       });
-      setDialogOpen(false);
-      setSelectedPhotos([]);
-      if (user) loadAlbumData(user.id);
     }
   };
 
-  const handleRemovePhoto = async (photoId: string) => {
-    if (!id) return;
+  const handleDuplicate = async () => {
+    if (!album) return;
 
-    const { error } = await supabase
-      .from("album_photos")
-      .delete()
-      .eq("album_id", id)
-      .eq("photo_id", photoId);
+    // Only the caller's own photos are copied, so the count comes from the new album.
+    const { data, error } = await supabase
+      .rpc("duplicate_album", {
+        source_album_id: album.id,
+        new_name: `${album.name} (cópia)`,
+      })
+      .select("id, name, photo_count");
 
     if (error) {
       toast({
-        title: "Erro ao remover foto",
+        title: "Erro ao duplicar álbum",
         description: error.message,
         variant: "destructive",
       });
     } else {
       toast({
-        title: "Foto removida",
-        description: "A foto foi removida do álbum.",
+        title: "Álbum duplicado!",
+        description: `"${data.name}" foi criado com ${data.photo_count} ${data.photo_count === 1 ? "foto" : "fotos"}.`,
       });
-      if (user) loadAlbumData(user.id);
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.list() });
+      setSettingsOpen(false);
+      navigate(`/album/${data.id}`);
     }
   };
 
-  if (!user || !album) return null;
+  const handleReorder = (photoIds: string[]) =>
+    reorderPhotos.mutate(photoIds, {
+      onError: (error) =>
+        toast({
+          title: "Erro ao reordenar fotos",
+          description: error.message,
+          variant: "destructive",
+        }),
+    });
+
+  const reorder = useDragReorder({
+    ids: orderedIds,
+    enabled: album?.sort_mode === "manual" && canEditAlbum(role),
+    onReorder: handleReorder,
+  });
+
+  const handleRemovePhoto = (photoId: string) => {
+    if (!id) return;
+
+    removePhoto.mutate(
+      { albumId: id, photoId },
+      {
+        onError: (error) =>
+          toast({
+            title: "Erro ao remover foto",
+            description: error.message,
+            variant: "destructive",
+          }),
+        onSuccess: () =>
+          toast({
+            title: "Foto removida",
+            description: "A foto foi removida do álbum.",
+          }),
+      }
+    );
+  };
+
+  if (!album) return null;
+
+  // Without an explicit choice the most recently added photo is the cover.
+  const coverPhotoId =
+    albumPhotos.find((photo) => photo.id === album.cover_photo_id)?.id ??
+    albumPhotos.reduce<AlbumPhoto | undefined>(
+      (newest, photo) => (!newest || photo.added_at > newest.added_at ? photo : newest),
+      undefined
+    )?.id;
+  const photosById = new Map(albumPhotos.map((photo) => [photo.id, photo]));
+  const manualSort = album.sort_mode === "manual";
+  const isOwner = role === "owner";
+  const canAdd = canAddToAlbum(role);
+  const canEdit = canEditAlbum(role);
+  const roleLabel = ALBUM_MEMBER_ROLE_OPTIONS.find((option) => option.value === role)?.label;
 
   return (
     <div className="min-h-screen bg-background">
@@ -177,78 +247,71 @@ const AlbumDetail = () => {
               )}
               <p className="text-sm text-muted-foreground">
                 {albumPhotos.length} {albumPhotos.length === 1 ? "foto" : "fotos"}
+                {roleLabel && ` · Compartilhado com você como ${roleLabel.toLowerCase()}`}
+                {manualSort && canEdit && albumPhotos.length > 1 && " · Arraste as fotos ou use Alt + setas para reordenar"}
               </p>
             </div>
 
-            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-              <DialogTrigger asChild>
-                <Button className="gap-2">
-                  <Plus className="h-4 w-4" />
-                  Adicionar Fotos
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
-                <DialogHeader>
-                  <DialogTitle>Adicionar Fotos ao Álbum</DialogTitle>
-                </DialogHeader>
-
-                {availablePhotos.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    Todas as suas fotos já estão neste álbum
-                  </div>
-                ) : (
-                  <>
-                    <div className="grid grid-cols-3 gap-4">
-                      {availablePhotos.map((photo) => (
-                        <div
-                          key={photo.id}
-                          className="relative aspect-square rounded-lg overflow-hidden cursor-pointer border-2 transition-all hover:border-primary"
-                          style={{
-                            borderColor: selectedPhotos.includes(photo.id)
-                              ? "hsl(var(--primary))"
-                              : "transparent",
-                          }}
-                          onClick={() => {
-                            setSelectedPhotos((prev) =>
-                              prev.includes(photo.id)
-                                ? prev.filter((id) => id !== photo.id)
-                                : [...prev, photo.id]
-                            );
-                          }}
-                        >
-                          <img
-                            src={photo.url}
-                            alt={photo.title || "Foto"}
-                            className="w-full h-full object-cover"
-                          />
-                          <div className="absolute top-2 right-2">
-                            <Checkbox checked={selectedPhotos.includes(photo.id)} />
-                          </div>
-                        </div>
-                      ))}
-                    </div>
+            <div className="flex items-center gap-2">
+              {isOwner && (
+                <>
+                  <Button variant="outline" className="gap-2" onClick={() => setMembersOpen(true)}>
+                    <Users className="h-4 w-4" />
+                    Membros
+                  </Button>
+
+                  <Button variant="outline" className="gap-2" onClick={() => setShareOpen(true)}>
+                    <Share2 className="h-4 w-4" />
+                    Compartilhar
+                  </Button>
+
+                  <Button variant="outline" className="gap-2" onClick={() => setSettingsOpen(true)}>
+                    <Settings className="h-4 w-4" />
+                    Configurações
+                  </Button>
+                </>
+              )}
 
-                    <div className="flex justify-end gap-2 pt-4 border-t">
-                      <Button
-                        variant="outline"
-                        onClick={() => {
-                          setDialogOpen(false);
-                          setSelectedPhotos([]);
-                        }}
-                      >
-                        Cancelar
-                      </Button>
-                      <Button
-                        onClick={handleAddPhotos}
-                        disabled={selectedPhotos.length === 0}
-                      >
-                        Adicionar ({selectedPhotos.length})
-                      </Button>
-                    </div>
-                  </>
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                {canAdd && (
+                  <DialogTrigger asChild>
+                    <Button className="gap-2">
+                      <Plus className="h-4 w-4" />
+                      Adicionar Fotos
+                    </Button>
+                  </DialogTrigger>
                 )}
-              </DialogContent>
-            </Dialog>
+                <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Adicionar Fotos ao Álbum</DialogTitle>
+                  </DialogHeader>
+
+                  <AlbumPhotoPicker
+                    albumId={album.id}
+                    selected={selectedPhotos}
+                    onSelectedChange={setSelectedPhotos}
+                  />
+
+                  <div className="flex justify-end gap-2 pt-4 border-t">
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setDialogOpen(false);
+                        setSelectedPhotos([]);
+                      }}
+                    >
+                      Cancelar
+                    </Button>
+                    <Button
+                      onClick={handleAddPhotos}
+                      disabled={selectedPhotos.length === 0}
+                    >
+                      Adicionar ({selectedPhotos.length})
+                    </Button>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </div>
 
@@ -260,22 +323,33 @@ const AlbumDetail = () => {
           <div className="text-center py-12 bg-muted/30 rounded-lg">
             <h3 className="text-lg font-medium mb-2">Nenhuma foto neste álbum</h3>
             <p className="text-muted-foreground mb-4">
-              Adicione fotos para começar a organizar seu álbum
+              {canAdd
+                ? "Adicione fotos para começar a organizar seu álbum, ou arraste arquivos para esta página"
+                : "O dono ainda não adicionou fotos a este álbum"}
             </p>
-            <Button onClick={() => setDialogOpen(true)}>Adicionar Fotos</Button>
+            {canAdd && <Button onClick={() => setDialogOpen(true)}>Adicionar Fotos</Button>}
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {albumPhotos.map((photo) => (
+            {reorder.order.map((photoId) => photosById.get(photoId)).filter(Boolean).map((photo) => (
               <div
                 key={photo.id}
-                className="group relative aspect-square overflow-hidden rounded-lg bg-muted shadow-soft hover:shadow-hover transition-all"
+                className={cn(
+                  "group relative aspect-square overflow-hidden rounded-lg bg-muted shadow-soft hover:shadow-hover transition-all cursor-pointer focus-visible:outline-none focus-visible:ring-4 focus-visible:ring-ring",
+                  reorder.draggingId === photo.id && "opacity-50"
+                )}
+                onClick={() => navigate(`/album/${album.id}/photo/${photo.id}`)}
+                {...reorder.getItemProps(photo.id)}
               >
-                <img
-                  src={photo.url}
+                <PhotoImage
+                  photo={photo}
+                  draggable={!manualSort}
                   alt={photo.title || "Foto"}
                   className="w-full h-full object-cover transition-transform group-hover:scale-105"
                 />
+                {photo.id === coverPhotoId && (
+                  <Badge className="absolute top-2 left-2">Capa</Badge>
+                )}
                 <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
                   <div className="absolute bottom-0 left-0 right-0 p-4">
                     {photo.title && (
@@ -283,22 +357,69 @@ const AlbumDetail = () => {
                         {photo.title}
                       </h3>
                     )}
-                    <Button
-                      size="sm"
-                      variant="destructive"
-                      className="gap-2"
-                      onClick={() => handleRemovePhoto(photo.id)}
-                    >
-                      <Trash2 className="h-3 w-3" />
-                      Remover
-                    </Button>
+                    <div className="flex gap-2">
+                      {isOwner && photo.id !== album.cover_photo_id && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          className="gap-2"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSetCover(photo.id);
+                          }}
+                        >
+                          <ImageIcon className="h-3 w-3" />
+                          Definir como capa
+                        </Button>
+                      )}
+                      {canEdit && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          className="gap-2"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRemovePhoto(photo.id);
+                          }}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          Remover
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
             ))}
           </div>
         )}
+        <p className="sr-only" aria-live="polite">
+          {reorder.announcement}
+        </p>
       </main>
+
+      <AlbumSettingsSheet
+        open={settingsOpen}
+        onOpenChange={setSettingsOpen}
+        album={album}
+        photos={sortedPhotos}
+        coverPhotoId={coverPhotoId}
+        onUpdate={updateAlbum}
+        onDuplicate={handleDuplicate}
+      />
+      <AlbumShareDialog open={shareOpen} onOpenChange={setShareOpen} albumId={album.id} />
+      <AlbumMembersDialog open={membersOpen} onOpenChange={setMembersOpen} albumId={album.id} />
+      <DropOverlay
+        onFiles={(files) => uploadQueue.enqueue(files, { albumId: album.id })}
+        label={`Solte as fotos para adicionar a "${album.name}"`}
+        disabled={!canAdd || dialogOpen || settingsOpen || shareOpen || membersOpen}
+      />
+      <UploadQueue
+        items={uploadQueue.items}
+        onCancel={uploadQueue.cancel}
+        onRetry={uploadQueue.retry}
+        onClear={uploadQueue.clearFinished}
+      />
     </div>
   );
 };
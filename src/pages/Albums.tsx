@@ -1,139 +1,96 @@
 import { useEffect, useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
+import { Link } from "react-router-dom";
 import Header from "@/components/Header";
 import { Button } from "@/components/ui/button";
-import { Plus, FolderOpen, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Plus, FolderOpen, Trash2, Users } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useAlbums, useCreateAlbum, useRestoreAlbums, useTrashAlbum } from "@/hooks/use-albums";
+import { ToastAction } from "@/components/ui/toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-
-interface Album {
-  id: string;
-  name: string;
-  description: string | null;
-  created_at: string;
-  cover_photo_id: string | null;
-  photos?: { url: string }[];
-}
+import AlbumCover from "@/components/AlbumCover";
 
 const Albums = () => {
-  const [user, setUser] = useState<User | null>(null);
-  const [albums, setAlbums] = useState<Album[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [creating, setCreating] = useState(false);
+  const { user } = useAuth();
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [dialogOpen, setDialogOpen] = useState(false);
-  const navigate = useNavigate();
   const { toast } = useToast();
+  const { data: albums = [], isLoading: loading, error } = useAlbums(!!user);
+  const createAlbum = useCreateAlbum();
+  const trashAlbum = useTrashAlbum();
+  const restoreAlbums = useRestoreAlbums();
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
-        setUser(session.user);
-        loadAlbums(session.user.id);
-      } else {
-        navigate("/auth");
-      }
-    });
-
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (session?.user) {
-        setUser(session.user);
-        loadAlbums(session.user.id);
-      } else {
-        navigate("/auth");
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
-
-  const loadAlbums = async (userId: string) => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from("albums")
-      .select(`
-        *,
-        album_photos(
-          photos(url)
-        )
-      `)
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false });
-
     if (error) {
       toast({
         title: "Erro ao carregar álbuns",
         description: error.message,
         variant: "destructive",
       });
-    } else {
-      const formattedAlbums = data.map((album: any) => ({
-        ...album,
-        photos: album.album_photos.map((ap: any) => ap.photos).filter(Boolean),
-      }));
-      setAlbums(formattedAlbums || []);
     }
-    setLoading(false);
-  };
+  }, [error, toast]);
 
-  const handleCreate = async (e: React.FormEvent) => {
+  const handleCreate = (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
-    setCreating(true);
-    const { error } = await supabase.from("albums").insert({
-      user_id: user.id,
-      name,
-      description: description || null,
-    });
-
-    if (error) {
-      toast({
-        title: "Erro ao criar álbum",
-        description: error.message,
-        variant: "destructive",
-      });
-    } else {
-      toast({
-        title: "Álbum criado!",
-        description: "Seu álbum foi criado com sucesso.",
-      });
-      setDialogOpen(false);
-      setName("");
-      setDescription("");
-      loadAlbums(user.id);
-    }
-    setCreating(false);
+    createAlbum.mutate(
+      { userId: user.id, name, description },
+      {
+        onError: (error) =>
+          toast({
+            title: "Erro ao criar álbum",
+            description: error.message,
+            variant: "destructive",
+          }),
+        onSuccess: () => {
+          toast({
+            title: "Álbum criado!",
+            description: "Seu álbum foi criado com sucesso.",
+          });
+          setDialogOpen(false);
+          setName("");
+          setDescription("");
+        },
+      }
+    );
   };
 
-  const handleDelete = async (albumId: string) => {
-    if (!confirm("Tem certeza que deseja excluir este álbum?")) return;
-
-    const { error } = await supabase.from("albums").delete().eq("id", albumId);
-
-    if (error) {
-      toast({
-        title: "Erro ao excluir álbum",
-        description: error.message,
-        variant: "destructive",
-      });
-    } else {
-      toast({
-        title: "Álbum excluído",
-        description: "O álbum foi removido com sucesso.",
-      });
-      if (user) loadAlbums(user.id);
-    }
-  };
+  const handleRestore = (albumId: string) =>
+    restoreAlbums.mutate([albumId], {
+      onError: (error) =>
+        toast({
+          title: "Erro ao restaurar álbum",
+          description: error.message,
+          variant: "destructive",
+        }),
+    });
 
-  if (!user) return null;
+  const handleDelete = (albumId: string) =>
+    trashAlbum.mutate(albumId, {
+      onError: (error) =>
+        toast({
+          title: "Erro ao excluir álbum",
+          description: error.message,
+          variant: "destructive",
+        }),
+      onSuccess: () =>
+        toast({
+          title: "Álbum movido para a lixeira",
+          description: "O álbum será excluído definitivamente em 30 dias.",
+          action: (
+            <ToastAction altText="Desfazer" onClick={() => handleRestore(albumId)}>
+              Desfazer
+            </ToastAction>
+          ),
+        }),
+    });
 
   return (
     <div className="min-h-screen bg-background">
@@ -180,8 +137,8 @@ const Albums = () => {
                     rows={3}
                   />
                 </div>
-                <Button type="submit" className="w-full" disabled={creating}>
-                  {creating ? "Criando..." : "Criar Álbum"}
+                <Button type="submit" className="w-full" disabled={createAlbum.isPending}>
+                  {createAlbum.isPending ? "Criando..." : "Criar Álbum"}
                 </Button>
               </form>
             </DialogContent>
@@ -208,17 +165,11 @@ const Albums = () => {
                 <Link to={`/album/${album.id}`}>
                   <CardHeader className="pb-3">
                     <div className="aspect-video rounded-md overflow-hidden bg-muted mb-3">
-                      {album.photos && album.photos.length > 0 ? (
-                        <img
-                          src={album.photos[0].url}
-                          alt={album.name}
-                          className="w-full h-full object-cover group-hover:scale-105 transition-transform"
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center">
-                          <FolderOpen className="h-12 w-12 text-muted-foreground" />
-                        </div>
-                      )}
+                      <AlbumCover
+                        album={album}
+                        photos={album.photos || []}
+                        className="group-hover:scale-105 transition-transform"
+                      />
                     </div>
                     <CardTitle className="line-clamp-1">{album.name}</CardTitle>
                     {album.description && (
@@ -230,20 +181,27 @@ const Albums = () => {
                   <CardContent>
                     <div className="flex items-center justify-between">
                       <p className="text-sm text-muted-foreground">
-                        {album.photos?.length || 0} {album.photos?.length === 1 ? "foto" : "fotos"}
+                        {album.photo_count ?? 0} {album.photo_count === 1 ? "foto" : "fotos"}
                       </p>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={(e) => {
-                          e.preventDefault();
-                          handleDelete(album.id);
-                        }}
-                        className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10"
-                      >
-                        <Trash2 className="h-3 w-3" />
-                        Excluir
-                      </Button>
+                      {album.user_id === user.id ? (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            handleDelete(album.id);
+                          }}
+                          className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                          Excluir
+                        </Button>
+                      ) : (
+                        <Badge variant="secondary" className="gap-1">
+                          <Users className="h-3 w-3" />
+                          Compartilhado
+                        </Badge>
+                      )}
                     </div>
                   </CardContent>
                 </Link>
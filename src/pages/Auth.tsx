@@ -1,36 +1,32 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { Location, Navigate, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import LoadingScreen from "@/components/LoadingScreen";
 import { Image } from "lucide-react";
 
+const OTP_LENGTH = 6;
+
 const Auth = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
-  const navigate = useNavigate();
+  const [forgotPassword, setForgotPassword] = useState(false);
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const { user, loading: authLoading } = useAuth();
+  const location = useLocation();
   const { toast } = useToast();
-
-  useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session) {
-        navigate("/");
-      }
-    });
-
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (session) {
-        navigate("/");
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+  // The page that sent the user here to log in.
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}${from.hash}` : "/";
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -78,6 +74,76 @@ const Auth = () => {
     setLoading(false);
   };
 
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/auth/reset`,
+    });
+
+    if (error) {
+      toast({
+        title: "Erro ao enviar link",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Verifique seu email",
+        description: `Enviamos um link para redefinir a senha para ${email}.`,
+      });
+      setForgotPassword(false);
+    }
+    setLoading(false);
+  };
+
+  const handleSendCode = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    setLoading(true);
+
+    // The email has both a sign-in link and a code, for when it is read on another device.
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: `${window.location.origin}${returnTo}`,
+      },
+    });
+
+    if (error) {
+      toast({
+        title: "Erro ao enviar código",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setCodeSentTo(email);
+      setCode("");
+    }
+    setLoading(false);
+  };
+
+  const handleVerifyCode = async (token: string) => {
+    setLoading(true);
+
+    const { error } = await supabase.auth.verifyOtp({ email: codeSentTo, token, type: "email" });
+
+    if (error) {
+      toast({
+        title: "Código inválido",
+        description: error.message,
+        variant: "destructive",
+      });
+      setCode("");
+    }
+    setLoading(false);
+  };
+
+  if (authLoading) return <LoadingScreen />;
+
+  if (user) return <Navigate to={returnTo} replace />;
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-muted/30 to-background p-4">
       <Card className="w-full max-w-md shadow-hover">
@@ -92,39 +158,130 @@ const Auth = () => {
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="signin">Entrar</TabsTrigger>
+              <TabsTrigger value="code">Sem senha</TabsTrigger>
               <TabsTrigger value="signup">Criar conta</TabsTrigger>
             </TabsList>
             
             <TabsContent value="signin">
-              <form onSubmit={handleSignIn} className="space-y-4 mt-4">
-                <div className="space-y-2">
-                  <Label htmlFor="email-signin">Email</Label>
-                  <Input
-                    id="email-signin"
-                    type="email"
-                    placeholder="seu@email.com"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="password-signin">Senha</Label>
-                  <Input
-                    id="password-signin"
-                    type="password"
-                    placeholder="••••••••"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                  />
+              {forgotPassword ? (
+                <form onSubmit={handleResetPassword} className="space-y-4 mt-4">
+                  <p className="text-sm text-muted-foreground">
+                    Informe seu email e enviaremos um link para criar uma nova senha.
+                  </p>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-reset">Email</Label>
+                    <Input
+                      id="email-reset"
+                      type="email"
+                      placeholder="seu@email.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? "Enviando..." : "Enviar link"}
+                  </Button>
+                  <Button type="button" variant="link" className="w-full" onClick={() => setForgotPassword(false)}>
+                    Voltar para o login
+                  </Button>
+                </form>
+              ) : (
+                <form onSubmit={handleSignIn} className="space-y-4 mt-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="email-signin">Email</Label>
+                    <Input
+                      id="email-signin"
+                      type="email"
+                      placeholder="seu@email.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="password-signin">Senha</Label>
+                    <Input
+                      id="password-signin"
+                      type="password"
+                      placeholder="••••••••"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? "Entrando..." : "Entrar"}
+                  </Button>
+                  <Button type="button" variant="link" className="w-full" onClick={() => setForgotPassword(true)}>
+                    Esqueci minha senha
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+
+            <TabsContent value="code">
+              {codeSentTo ? (
+                <div className="space-y-4 mt-4">
+                  <p className="text-sm text-muted-foreground text-center">
+                    Enviamos um link e um código de {OTP_LENGTH} dígitos para <strong>{codeSentTo}</strong>. Abra o
+                    link ou digite o código abaixo.
+                  </p>
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={OTP_LENGTH}
+                      value={code}
+                      onChange={setCode}
+                      onComplete={handleVerifyCode}
+                      disabled={loading}
+                      autoFocus
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: OTP_LENGTH }, (_, i) => (
+                          <InputOTPSlot key={i} index={i} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                  <Button
+                    className="w-full"
+                    disabled={loading || code.length < OTP_LENGTH}
+                    onClick={() => handleVerifyCode(code)}
+                  >
+                    {loading ? "Verificando..." : "Entrar"}
+                  </Button>
+                  <div className="flex justify-between">
+                    <Button variant="link" className="px-0" onClick={() => setCodeSentTo(null)}>
+                      Usar outro email
+                    </Button>
+                    <Button variant="link" className="px-0" onClick={() => handleSendCode()} disabled={loading}>
+                      Reenviar código
+                    </Button>
+                  </div>
                 </div>
-                <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? "Entrando..." : "Entrar"}
-                </Button>
-              </form>
+              ) : (
+                <form onSubmit={handleSendCode} className="space-y-4 mt-4">
+                  <p className="text-sm text-muted-foreground">
+                    Receba um link de acesso e um código por email, sem precisar de senha.
+                  </p>
+                  <div className="space-y-2">
+                    <Label htmlFor="email-code">Email</Label>
+                    <Input
+                      id="email-code"
+                      type="email"
+                      placeholder="seu@email.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? "Enviando..." : "Enviar código"}
+                  </Button>
+                </form>
+              )}
             </TabsContent>
             
             <TabsContent value="signup">
@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import PhotoImage from "@/components/PhotoImage";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ToastAction } from "@/components/ui/toast";
+import { Copy, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { computeContentHash, computePerceptualHash, findDuplicateGroups } from "@/lib/dedup";
+import { queryKeys } from "@/lib/query-keys";
+import { PHOTOS_BUCKET } from "@/lib/upload";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Photo = Pick<
+  Tables<"photos">,
+  | "id"
+  | "title"
+  | "created_at"
+  | "content_hash"
+  | "duplicate_content_hash"
+  | "perceptual_hash"
+  | "path"
+  | "small_path"
+  | "medium_path"
+  | "large_path"
+  | "small_width"
+  | "medium_width"
+  | "large_width"
+>;
+
+const PHOTO_COLUMNS =
+  "id, title, created_at, content_hash, duplicate_content_hash, perceptual_hash, path, small_path, medium_path, large_path, small_width, medium_width, large_width";
+
+const downloadBlob = async (path: string) => {
+  const { data, error } = await supabase.storage.from(PHOTOS_BUCKET).download(path);
+  if (error) throw error;
+  return data;
+};
+
+// Photos uploaded before hashing existed are fingerprinted here, once.
+const hashPhoto = async (photo: Photo) => {
+  const knownContentHash = photo.content_hash ?? photo.duplicate_content_hash;
+  const original = knownContentHash && photo.small_path ? null : await downloadBlob(photo.path);
+  const contentHash = knownContentHash ?? (await computeContentHash(original!));
+  const perceptualHash =
+    photo.perceptual_hash ??
+    (await computePerceptualHash(photo.small_path ? await downloadBlob(photo.small_path) : original!));
+  return { content_hash: contentHash, perceptual_hash: perceptualHash };
+};
+
+// Saves the fingerprint. When another photo (visible or in the trash) already
+// holds the same content hash, this one is a byte-identical copy: the hash is
+// kept as a known duplicate instead, outside the unique index.
+const saveHashes = async (photo: Photo, hashes: Awaited<ReturnType<typeof hashPhoto>>) => {
+  if (photo.duplicate_content_hash) {
+    const { error } = await supabase
+      .from("photos")
+      .update({ perceptual_hash: hashes.perceptual_hash })
+      .eq("id", photo.id);
+    if (error) throw error;
+    return { perceptual_hash: hashes.perceptual_hash };
+  }
+
+  const { error } = await supabase.from("photos").update(hashes).eq("id", photo.id);
+  if (!error) return hashes;
+  if (error.code !== "23505") throw error;
+
+  const copyHashes = {
+    content_hash: null,
+    duplicate_content_hash: hashes.content_hash,
+    perceptual_hash: hashes.perceptual_hash,
+  };
+  const { error: copyError } = await supabase.from("photos").update(copyHashes).eq("id", photo.id);
+  if (copyError) throw copyError;
+  return copyHashes;
+};
+
+const Duplicates = () => {
+  const { user } = useAuth();
+  const [photos, setPhotos] = useState<Photo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [analyzed, setAnalyzed] = useState(0);
+  const [pending, setPending] = useState(0);
+  const mounted = useRef(true);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const backfillHashes = useCallback(
+    async (missing: Photo[]) => {
+      setPending(missing.length);
+      setAnalyzed(0);
+      let failedToSave = 0;
+
+      for (const photo of missing) {
+        if (!mounted.current) return;
+        let hashes: Awaited<ReturnType<typeof hashPhoto>>;
+        try {
+          hashes = await hashPhoto(photo);
+        } catch {
+          // Unreadable files are left out of the comparison.
+          setAnalyzed((count) => count + 1);
+          continue;
+        }
+
+        let saved: Partial<Photo> = hashes;
+        try {
+          saved = await saveHashes(photo, hashes);
+        } catch {
+          // Still compared on this visit; the photo is analyzed again next time.
+          failedToSave++;
+        }
+        setPhotos((prev) => prev.map((p) => (p.id === photo.id ? { ...p, ...saved } : p)));
+        setAnalyzed((count) => count + 1);
+      }
+
+      if (failedToSave > 0 && mounted.current) {
+        toast({
+          title: "Erro ao salvar análise",
+          description:
+            failedToSave === 1
+              ? "Uma foto será analisada novamente na próxima visita."
+              : `${failedToSave} fotos serão analisadas novamente na próxima visita.`,
+          variant: "destructive",
+        });
+      }
+    },
+    [toast]
+  );
+
+  // Oldest first, so the first photo of each group is the one to keep.
+  const loadPhotos = useCallback(
+    async (userId: string) => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("photos")
+        .select(PHOTO_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        toast({
+          title: "Erro ao carregar fotos",
+          description: error.message,
+          variant: "destructive",
+        });
+        setLoading(false);
+        return;
+      }
+
+      setPhotos(data || []);
+      setLoading(false);
+      backfillHashes(
+        (data || []).filter(
+          (photo) => !(photo.content_hash ?? photo.duplicate_content_hash) || !photo.perceptual_hash
+        )
+      );
+    },
+    [toast, backfillHashes]
+  );
+
+  const userId = user?.id;
+  useEffect(() => {
+    mounted.current = true;
+    loadPhotos(userId);
+
+    return () => {
+      mounted.current = false;
+    };
+  }, [userId, loadPhotos]);
+
+  const groups = useMemo(() => findDuplicateGroups(photos), [photos]);
+  const analyzing = analyzed < pending;
+
+  const restorePhotos = async (targets: Photo[]) => {
+    const { error } = await supabase.rpc("restore_photos", { photo_ids: targets.map((photo) => photo.id) });
+
+    if (error) {
+      toast({
+        title: "Erro ao restaurar",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      const restored = new Set(targets.map((photo) => photo.id));
+      setPhotos((prev) =>
+        [...prev.filter((photo) => !restored.has(photo.id)), ...targets].sort((a, b) =>
+          a.created_at.localeCompare(b.created_at)
+        )
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.photos.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.all });
+    }
+  };
+
+  const trashPhotos = async (targets: Photo[]) => {
+    const ids = targets.map((photo) => photo.id);
+    const { error } = await supabase.rpc("trash_photos", { photo_ids: ids });
+
+    if (error) {
+      toast({
+        title: targets.length === 1 ? "Erro ao excluir foto" : "Erro ao excluir fotos",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Movido para a lixeira",
+      description:
+        targets.length === 1
+          ? "A foto será excluída definitivamente em 30 dias."
+          : `${targets.length} fotos serão excluídas definitivamente em 30 dias.`,
+      action: (
+        <ToastAction altText="Desfazer" onClick={() => restorePhotos(targets)}>
+          Desfazer
+        </ToastAction>
+      ),
+    });
+    const removed = new Set(ids);
+    setPhotos((prev) => prev.filter((photo) => !removed.has(photo.id)));
+    queryClient.invalidateQueries({ queryKey: queryKeys.photos.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.albums.all });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header user={user} />
+
+      <main className="container py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Fotos duplicadas</h1>
+          <p className="text-muted-foreground">
+            Cópias idênticas e fotos muito parecidas na sua biblioteca
+          </p>
+        </div>
+
+        {analyzing && (
+          <div className="mb-8 space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Analisando fotos antigas ({analyzed}/{pending})...
+            </p>
+            <Progress value={(analyzed / pending) * 100} className="h-2" />
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Carregando fotos...</p>
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-12 bg-muted/30 rounded-lg">
+            <Copy className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-medium">
+              {analyzing ? "Nenhuma duplicada encontrada até agora" : "Nenhuma foto duplicada"}
+            </h3>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {groups.map((group) => (
+              <Card key={group.photos[0].id}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                  <div className="space-y-1">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      {group.photos.length} fotos
+                      <Badge variant={group.kind === "exact" ? "default" : "secondary"}>
+                        {group.kind === "exact" ? "Idênticas" : "Parecidas"}
+                      </Badge>
+                    </CardTitle>
+                    <CardDescription>
+                      {group.kind === "exact"
+                        ? "Os arquivos são exatamente iguais."
+                        : "As imagens são visualmente semelhantes; confira antes de excluir."}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" className="gap-2 shrink-0" onClick={() => trashPhotos(group.photos.slice(1))}>
+                    <Trash2 className="h-4 w-4" />
+                    Manter só a mais antiga
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+                    {group.photos.map((photo, index) => (
+                      <div key={photo.id} className="space-y-2">
+                        <Link
+                          to={`/photo/${photo.id}`}
+                          className="block relative aspect-square overflow-hidden rounded-lg bg-muted shadow-soft hover:shadow-hover transition-all"
+                        >
+                          <PhotoImage
+                            photo={photo}
+                            alt={photo.title || "Foto"}
+                            className="w-full h-full object-cover"
+                          />
+                          {index === 0 && (
+                            <Badge variant="secondary" className="absolute top-2 left-2">
+                              Mais antiga
+                            </Badge>
+                          )}
+                        </Link>
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-xs text-muted-foreground truncate">
+                            {photo.title || new Date(photo.created_at).toLocaleDateString("pt-BR")}
+                          </p>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 shrink-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => trashPhotos([photo])}
+                            aria-label="Mover para a lixeira"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Duplicates;
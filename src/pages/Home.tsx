@@ -1,277 +1,677 @@
-import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import Header from "@/components/Header";
 import { Button } from "@/components/ui/button";
-import { Plus, Upload, Trash2 } from "lucide-react";
+import { Plus, Upload, FolderUp, CheckSquare, X, Download, FolderPlus, Trash2, Copy, Tags, SlidersHorizontal, ArrowUp } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useNewPhotos } from "@/hooks/use-new-photos";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { SidebarProvider } from "@/components/ui/sidebar";
+import UploadQueue from "@/components/UploadQueue";
+import PhotoTile, { PhotoTextPatch } from "@/components/PhotoTile";
+import PhotoInfoPanel from "@/components/PhotoInfoPanel";
+import DropOverlay from "@/components/DropOverlay";
+import LassoArea from "@/components/LassoArea";
+import AddToAlbumDialog from "@/components/AddToAlbumDialog";
+import TagInput from "@/components/TagInput";
+import TagFilter from "@/components/TagFilter";
+import VirtualPhotoGrid from "@/components/VirtualPhotoGrid";
+import PhotoFilterSidebar, { PhotoFilterTrigger } from "@/components/PhotoFilterSidebar";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { useSelection } from "@/hooks/use-selection";
+import { useTags } from "@/hooks/use-tags";
+import {
+  addCachedPhotos,
+  flattenPhotoPages,
+  LibraryPhoto,
+  updateCachedPhotos,
+  usePhotoCounts,
+  usePhotoFilterOptions,
+  usePhotoPages,
+  useRestorePhotos,
+  useTrashPhotos,
+  useUpdatePhotos,
+} from "@/hooks/use-photos";
+import { downloadPhotos } from "@/lib/download";
+import { isImageFile } from "@/lib/upload";
+import { addPhotoTags, sortTags, Tag } from "@/lib/tags";
+import {
+  countActiveFilters,
+  EMPTY_PHOTO_FILTERS,
+  matchesPhotoFilters,
+  parsePhotoFilters,
+  PhotoFilters,
+  writePhotoFilters,
+} from "@/lib/photo-filters";
+import { comparePhotos, PHOTO_SORT_OPTIONS, PhotoSort } from "@/lib/photo-groups";
+import { queryKeys } from "@/lib/query-keys";
+import type { Tables } from "@/integrations/supabase/types";
 
-interface Photo {
-  id: string;
-  url: string;
-  title: string | null;
-  description: string | null;
-  created_at: string;
-}
+type Photo = LibraryPhoto;
+
+const mergeTags = (current: Tag[], added: Tag[] = []) =>
+  sortTags([...current, ...added.filter((tag) => !current.some((t) => t.id === tag.id))]);
 
 const Home = () => {
-  const [user, setUser] = useState<User | null>(null);
-  const [photos, setPhotos] = useState<Photo[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [uploading, setUploading] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const { user } = useAuth();
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [uploadTags, setUploadTags] = useState<Tag[]>([]);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [sort, setSort] = useState<PhotoSort>("taken");
+  const [infoPhotoId, setInfoPhotoId] = useState<string | null>(null);
+  const [infoMetadata, setInfoMetadata] = useState<Tables<"photo_metadata"> | null>(null);
+  const [infoLoading, setInfoLoading] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [albumDialogOpen, setAlbumDialogOpen] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [bulkDescriptionOpen, setBulkDescriptionOpen] = useState(false);
+  const [bulkDescription, setBulkDescription] = useState("");
+  const [bulkTagsOpen, setBulkTagsOpen] = useState(false);
+  const [bulkTags, setBulkTags] = useState<Tag[]>([]);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { tags, createTag } = useTags(user?.id);
+
+  // Filters live in the query string so a filtered view can be bookmarked.
+  const filters = useMemo(() => parsePhotoFilters(searchParams), [searchParams]);
+  const activeFilterCount = countActiveFilters(filters);
+  const setFilters = (next: PhotoFilters) => setSearchParams(writePhotoFilters(searchParams, next), { replace: true });
+
+  const photoPages = usePhotoPages(user?.id, sort, filters);
+  const { data: counts } = usePhotoCounts(user?.id, filters);
+  const updatePhotos = useUpdatePhotos();
+  const trashPhotosMutation = useTrashPhotos();
+  const restorePhotosMutation = useRestorePhotos();
+  const loading = photoPages.isLoading;
+  const totalCount = counts?.total ?? 0;
+  const matchCount = counts?.matching ?? 0;
+  const photos = useMemo(() => flattenPhotoPages(photoPages.data), [photoPages.data]);
+  const { newPhotoIds, clearNewPhotos } = useNewPhotos();
+  // Photos uploaded from this tab are already in the grid.
+  const newPhotoCount = useMemo(() => {
+    const loaded = new Set(photos.map((photo) => photo.id));
+    return newPhotoIds.filter((id) => !loaded.has(id)).length;
+  }, [photos, newPhotoIds]);
+
+  const showNewPhotos = () => {
+    clearNewPhotos();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+    queryClient.invalidateQueries({ queryKey: queryKeys.photos.lists() });
+  };
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
-        setUser(session.user);
-        loadPhotos(session.user.id);
-      } else {
-        navigate("/auth");
-      }
+    if (!photoPages.error) return;
+    toast({
+      title: "Erro ao carregar fotos",
+      description: photoPages.error.message,
+      variant: "destructive",
     });
+  }, [photoPages.error, toast]);
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (session?.user) {
-        setUser(session.user);
-        loadPhotos(session.user.id);
-      } else {
-        navigate("/auth");
+  // Uploads are not optimistic: a tile needs the stored row to be opened,
+  // selected or tagged, and a file that turns out to be a duplicate would
+  // appear and vanish. The queue panel shows progress until the row exists.
+  const uploadQueue = useUploadQueue({
+    userId: user?.id,
+    onUploaded: (photo, { meta, duplicate }) => {
+      if (duplicate) {
+        updateCachedPhotos(queryClient, (p) => (p.id === photo.id ? { ...p, tags: mergeTags(p.tags, meta.tags) } : p));
+        return;
       }
-    });
+      addCachedPhotos(queryClient, [{ ...photo, camera_model: null, album_count: 0, tags: meta.tags ?? [] }]);
+      queryClient.invalidateQueries({ queryKey: queryKeys.photos.counts() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.photos.options() });
+    },
+  });
+
+  useEffect(() => {
+    // webkitdirectory is not part of React's input props, so it is set on the node.
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, [dialogOpen]);
+
+  const { data: filterOptions } = usePhotoFilterOptions(user?.id);
+  const cameras = filterOptions?.cameras ?? [];
+  const fileTypes = filterOptions?.types ?? [];
 
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+  // Uploads are prepended as they finish, so the list is re-sorted locally.
+  const infoPhoto = photos.find((photo) => photo.id === infoPhotoId);
+  const sortedPhotos = useMemo(
+    () => photos.filter((photo) => matchesPhotoFilters(photo, filters)).sort(comparePhotos(sort)),
+    [photos, sort, filters]
+  );
+  const orderedIds = useMemo(() => sortedPhotos.map((photo) => photo.id), [sortedPhotos]);
+  const selection = useSelection(orderedIds);
+  const { selectedIds } = selection;
+  const selectedPhotos = sortedPhotos.filter((photo) => selectedIds.has(photo.id));
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, [contenteditable], [role=dialog]")) return;
+
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "a") {
+        e.preventDefault();
+        setSelecting(true);
+        selection.selectAll();
+      } else if (e.key === "Escape" && selecting) {
+        setSelecting(false);
+        selection.clear();
+      }
+    };
 
-  const loadPhotos = async (userId: string) => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from("photos")
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selection, selecting]);
+
+  const loadMore = () => {
+    if (photoPages.hasNextPage && !photoPages.isFetchingNextPage) photoPages.fetchNextPage();
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      const files = Array.from(e.target.files).filter(isImageFile);
+      setSelectedFiles((prev) => [...prev, ...files]);
+    }
+    e.target.value = "";
+  };
+
+  const handleUpload = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedFiles.length === 0 || !user) return;
+
+    uploadQueue.enqueue(selectedFiles, { title, description, tags: uploadTags });
+    setDialogOpen(false);
+    setSelectedFiles([]);
+    setTitle("");
+    setDescription("");
+    setUploadTags([]);
+  };
+
+  const handleShowInfo = async (photo: Photo) => {
+    setInfoPhotoId(photo.id);
+    setInfoMetadata(null);
+    setInfoLoading(true);
+
+    const { data } = await supabase
+      .from("photo_metadata")
       .select("*")
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false });
+      .eq("photo_id", photo.id)
+      .maybeSingle();
 
-    if (error) {
+    setInfoMetadata(data);
+    setInfoLoading(false);
+  };
+
+  const handleUpdatePhotos = async (photoIds: string[], patch: PhotoTextPatch) => {
+    try {
+      await updatePhotos.mutateAsync({ photoIds, patch });
+      return true;
+    } catch (error) {
       toast({
-        title: "Erro ao carregar fotos",
-        description: error.message,
+        title: "Erro ao atualizar foto",
+        description: (error as Error).message,
         variant: "destructive",
       });
-    } else {
-      setPhotos(data || []);
+      return false;
     }
-    setLoading(false);
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
-    }
+  const toggleSelected = (photoId: string, range: boolean) => {
+    setSelecting(true);
+    selection.toggle(photoId, { range });
   };
 
-  const handleUpload = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedFile || !user) return;
+  const exitSelection = () => {
+    setSelecting(false);
+    selection.clear();
+  };
 
-    setUploading(true);
-    const fileExt = selectedFile.name.split(".").pop();
-    const fileName = `${user.id}/${Date.now()}.${fileExt}`;
+  const handleBulkDescription = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await handleUpdatePhotos(Array.from(selectedIds), {
+      description: bulkDescription.trim() || null,
+    });
+    if (ok) {
+      toast({
+        title: "Descrição atualizada",
+        description: `${selectedIds.size} foto(s) atualizada(s).`,
+      });
+      setBulkDescriptionOpen(false);
+      setBulkDescription("");
+      exitSelection();
+    }
+  };
 
-    const { error: uploadError, data } = await supabase.storage
-      .from("photos")
-      .upload(fileName, selectedFile);
+  const handleBulkTags = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ids = new Set(selectedIds);
+    const error = await addPhotoTags(Array.from(ids), bulkTags.map((tag) => tag.id));
 
-    if (uploadError) {
+    if (error) {
       toast({
-        title: "Erro ao fazer upload",
-        description: uploadError.message,
+        title: "Erro ao adicionar tags",
+        description: error.message,
         variant: "destructive",
       });
-      setUploading(false);
       return;
     }
 
-    const { data: { publicUrl } } = supabase.storage
-      .from("photos")
-      .getPublicUrl(fileName);
+    updateCachedPhotos(queryClient, (p) => (ids.has(p.id) ? { ...p, tags: mergeTags(p.tags, bulkTags) } : p));
+    toast({
+      title: "Tags adicionadas",
+      description: `${ids.size} foto(s) atualizada(s).`,
+    });
+    setBulkTagsOpen(false);
+    setBulkTags([]);
+    exitSelection();
+  };
 
-    const { error: dbError } = await supabase.from("photos").insert({
-      user_id: user.id,
-      url: publicUrl,
-      title: title || null,
-      description: description || null,
+  const restorePhotos = (targets: Photo[]) =>
+    restorePhotosMutation.mutate(targets, {
+      onError: (error) =>
+        toast({
+          title: "Erro ao restaurar",
+          description: error.message,
+          variant: "destructive",
+        }),
     });
 
-    if (dbError) {
+  const trashPhotos = async (targets: Photo[]) => {
+    try {
+      await trashPhotosMutation.mutateAsync(targets);
+    } catch (error) {
       toast({
-        title: "Erro ao salvar foto",
-        description: dbError.message,
+        title: targets.length === 1 ? "Erro ao excluir foto" : "Erro ao excluir fotos",
+        description: (error as Error).message,
         variant: "destructive",
       });
-    } else {
-      toast({
-        title: "Foto adicionada!",
-        description: "Sua foto foi adicionada com sucesso.",
-      });
-      setDialogOpen(false);
-      setSelectedFile(null);
-      setTitle("");
-      setDescription("");
-      loadPhotos(user.id);
+      return false;
     }
-    setUploading(false);
-  };
 
-  const handleDelete = async (photoId: string, photoUrl: string) => {
-    if (!confirm("Tem certeza que deseja excluir esta foto?")) return;
+    toast({
+      title: "Movido para a lixeira",
+      description:
+        targets.length === 1
+          ? "A foto será excluída definitivamente em 30 dias."
+          : `${targets.length} fotos serão excluídas definitivamente em 30 dias.`,
+      action: (
+        <ToastAction altText="Desfazer" onClick={() => restorePhotos(targets)}>
+          Desfazer
+        </ToastAction>
+      ),
+    });
+    return true;
+  };
 
-    const path = photoUrl.split("/photos/")[1];
-    await supabase.storage.from("photos").remove([path]);
+  const handleDelete = async (photo: Photo) => {
+    await trashPhotos([photo]);
+  };
 
-    const { error } = await supabase.from("photos").delete().eq("id", photoId);
+  const handleBulkDelete = async () => {
+    if (await trashPhotos(selectedPhotos)) exitSelection();
+  };
 
-    if (error) {
+  const handleBulkDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadPhotos(selectedPhotos);
       toast({
-        title: "Erro ao excluir foto",
-        description: error.message,
-        variant: "destructive",
+        title: "Download pronto",
+        description: `${selectedPhotos.length} foto(s) baixada(s).`,
       });
-    } else {
+    } catch (error) {
       toast({
-        title: "Foto excluída",
-        description: "A foto foi removida com sucesso.",
+        title: "Erro ao baixar fotos",
+        description: (error as Error).message,
+        variant: "destructive",
       });
-      if (user) loadPhotos(user.id);
     }
+    setDownloading(false);
   };
 
-  if (!user) return null;
+  // The viewer pages through the same sorted, filtered list as the grid.
+  const viewerParams = writePhotoFilters(new URLSearchParams({ sort }), filters);
+
+  const renderPhoto = (photo: Photo) => (
+    <PhotoTile
+      key={photo.id}
+      photo={photo}
+      selecting={selecting}
+      selected={selectedIds.has(photo.id)}
+      onOpen={() => navigate(`/photo/${photo.id}?${viewerParams}`)}
+      onToggleSelect={(range) => toggleSelected(photo.id, range)}
+      onUpdate={(patch) => handleUpdatePhotos([photo.id], patch)}
+      onInfo={() => handleShowInfo(photo)}
+      onDelete={() => handleDelete(photo)}
+    />
+  );
 
   return (
     <div className="min-h-screen bg-background">
       <Header user={user} />
-      
-      <main className="container py-8">
-        <div className="flex items-center justify-between mb-8">
-          <div>
-            <h1 className="text-3xl font-bold mb-2">Minhas Fotos</h1>
-            <p className="text-muted-foreground">
-              {photos.length} {photos.length === 1 ? "foto" : "fotos"}
-            </p>
-          </div>
-          
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="h-4 w-4" />
-                Adicionar Foto
+
+      <SidebarProvider defaultOpen={activeFilterCount > 0} className="min-h-0">
+        <PhotoFilterSidebar filters={filters} onChange={setFilters} cameras={cameras} fileTypes={fileTypes} />
+        <main className="container min-w-0 flex-1 py-8">
+          {newPhotoCount > 0 && (
+            <div className="sticky top-20 z-20 flex h-0 justify-center">
+              <Button size="sm" className="gap-2 rounded-full shadow-md" onClick={showNewPhotos}>
+                <ArrowUp className="h-4 w-4" />
+                {newPhotoCount === 1 ? "1 nova foto" : `${newPhotoCount} novas fotos`}
               </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Adicionar Nova Foto</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={handleUpload} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="photo">Foto</Label>
-                  <Input
-                    id="photo"
-                    type="file"
-                    accept="image/*"
-                    onChange={handleFileSelect}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="title">Título (opcional)</Label>
-                  <Input
-                    id="title"
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                    placeholder="Dê um título para sua foto"
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Descrição (opcional)</Label>
-                  <Textarea
-                    id="description"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    placeholder="Adicione uma descrição"
-                    rows={3}
-                  />
-                </div>
-                <Button type="submit" className="w-full" disabled={uploading}>
-                  {uploading ? "Enviando..." : "Adicionar Foto"}
+            </div>
+          )}
+          <div className="flex items-center justify-between mb-8">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">Minhas Fotos</h1>
+              <p className="text-muted-foreground">
+                {activeFilterCount > 0 && `${matchCount} de `}
+                {totalCount} {totalCount === 1 ? "foto" : "fotos"}
+              </p>
+            </div>
+          
+            <div className="flex items-center gap-2">
+              {totalCount > 0 && (
+                <Button
+                  variant={selecting ? "secondary" : "outline"}
+                  className="gap-2"
+                  onClick={() => (selecting ? exitSelection() : setSelecting(true))}
+                >
+                  {selecting ? <X className="h-4 w-4" /> : <CheckSquare className="h-4 w-4" />}
+                  {selecting ? "Cancelar" : "Selecionar"}
                 </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
-        </div>
-
-        {loading ? (
-          <div className="text-center py-12">
-            <p className="text-muted-foreground">Carregando fotos...</p>
-          </div>
-        ) : photos.length === 0 ? (
-          <div className="text-center py-12 bg-muted/30 rounded-lg">
-            <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-            <h3 className="text-lg font-medium mb-2">Nenhuma foto ainda</h3>
-            <p className="text-muted-foreground mb-4">
-              Comece adicionando sua primeira foto
-            </p>
-            <Button onClick={() => setDialogOpen(true)}>Adicionar Foto</Button>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {photos.map((photo) => (
-              <div
-                key={photo.id}
-                className="group relative aspect-square overflow-hidden rounded-lg bg-muted shadow-soft hover:shadow-hover transition-all"
-              >
-                <img
-                  src={photo.url}
-                  alt={photo.title || "Foto"}
-                  className="w-full h-full object-cover transition-transform group-hover:scale-105"
+              )}
+              {totalCount > 1 && !selecting && (
+                <Button variant="outline" className="gap-2" asChild>
+                  <Link to="/duplicates">
+                    <Copy className="h-4 w-4" />
+                    Encontrar duplicadas
+                  </Link>
+                </Button>
+              )}
+              <PhotoFilterTrigger count={activeFilterCount} />
+              {tags.length > 0 && (
+                <TagFilter
+                  tags={tags}
+                  value={filters.tags}
+                  onChange={(tagIds) => setFilters({ ...filters, tags: tagIds })}
+                  mode={filters.tagMode}
+                  onModeChange={(tagMode) => setFilters({ ...filters, tagMode })}
                 />
-                <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
-                  <div className="absolute bottom-0 left-0 right-0 p-4">
-                    {photo.title && (
-                      <h3 className="text-white font-medium mb-1 line-clamp-1">
-                        {photo.title}
-                      </h3>
-                    )}
-                    {photo.description && (
-                      <p className="text-white/80 text-sm line-clamp-2 mb-3">
-                        {photo.description}
-                      </p>
-                    )}
-                    <Button
-                      size="sm"
-                      variant="destructive"
-                      className="gap-2"
-                      onClick={() => handleDelete(photo.id, photo.url)}
-                    >
-                      <Trash2 className="h-3 w-3" />
-                      Excluir
+              )}
+              <Select value={sort} onValueChange={(value) => setSort(value as PhotoSort)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PHOTO_SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Adicionar Foto
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Adicionar Novas Fotos</DialogTitle>
+                  </DialogHeader>
+                  <form onSubmit={handleUpload} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="photo">Fotos</Label>
+                      <Input
+                        id="photo"
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        onChange={handleFileSelect}
+                      />
+                      <input
+                        ref={folderInputRef}
+                        id="photo-folder"
+                        type="file"
+                        multiple
+                        onChange={handleFileSelect}
+                        className="hidden"
+                      />
+                      <div className="flex items-center justify-between gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => folderInputRef.current?.click()}
+                        >
+                          <FolderUp className="h-4 w-4" />
+                          Selecionar pasta
+                        </Button>
+                        {selectedFiles.length > 0 && (
+                          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                            {selectedFiles.length} {selectedFiles.length === 1 ? "arquivo" : "arquivos"}
+                            <Button type="button" variant="ghost" size="sm" onClick={() => setSelectedFiles([])}>
+                              Limpar
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="title">Título (opcional, aplicado a todas)</Label>
+                      <Input
+                        id="title"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        placeholder="Dê um título para sua foto"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="description">Descrição (opcional)</Label>
+                      <Textarea
+                        id="description"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        placeholder="Adicione uma descrição"
+                        rows={3}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Tags (opcional)</Label>
+                      <TagInput tags={tags} value={uploadTags} onChange={setUploadTags} onCreate={createTag} />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={selectedFiles.length === 0}>
+                      {selectedFiles.length > 1 ? `Adicionar ${selectedFiles.length} Fotos` : "Adicionar Foto"}
                     </Button>
-                  </div>
-                </div>
-              </div>
-            ))}
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
-        )}
-      </main>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">Carregando fotos...</p>
+            </div>
+          ) : totalCount === 0 ? (
+            <div className="text-center py-12 bg-muted/30 rounded-lg">
+              <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-medium mb-2">Nenhuma foto ainda</h3>
+              <p className="text-muted-foreground mb-4">
+                Comece adicionando sua primeira foto ou arraste arquivos para esta página
+              </p>
+              <Button onClick={() => setDialogOpen(true)}>Adicionar Foto</Button>
+            </div>
+          ) : sortedPhotos.length === 0 ? (
+            <div className="text-center py-12 bg-muted/30 rounded-lg">
+              <SlidersHorizontal className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-medium mb-2">Nenhuma foto corresponde aos filtros</h3>
+              <Button variant="outline" onClick={() => setFilters(EMPTY_PHOTO_FILTERS)}>
+                Limpar filtros
+              </Button>
+            </div>
+          ) : (
+            <LassoArea
+              enabled={selecting}
+              onSelect={(ids, additive) => selection.selectMany(ids, { additive })}
+            >
+              <VirtualPhotoGrid photos={sortedPhotos} sort={sort} renderPhoto={renderPhoto} onReachEnd={loadMore} />
+              {photoPages.isFetchingNextPage && <p className="py-6 text-center text-sm text-muted-foreground">Carregando mais fotos...</p>}
+            </LassoArea>
+          )}
+        </main>
+      </SidebarProvider>
+
+      {selecting && (
+        <div className="sticky bottom-4 z-40 mx-auto mb-4 flex w-fit max-w-[calc(100%-2rem)] flex-wrap items-center justify-center gap-2 rounded-lg border bg-background p-3 shadow-hover">
+          <span className="px-2 text-sm font-medium">
+            {selectedIds.size} {selectedIds.size === 1 ? "selecionada" : "selecionadas"}
+          </span>
+          <Button size="sm" variant="ghost" onClick={selection.selectAll}>
+            Selecionar tudo
+          </Button>
+          <Button size="sm" variant="outline" disabled={selectedIds.size === 0} onClick={() => setBulkDescriptionOpen(true)}>
+            Definir descrição
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            disabled={selectedIds.size === 0}
+            onClick={() => setBulkTagsOpen(true)}
+          >
+            <Tags className="h-4 w-4" />
+            Adicionar tags
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            disabled={selectedIds.size === 0}
+            onClick={() => setAlbumDialogOpen(true)}
+          >
+            <FolderPlus className="h-4 w-4" />
+            Adicionar ao álbum
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-2"
+            disabled={selectedIds.size === 0 || downloading}
+            onClick={handleBulkDownload}
+          >
+            <Download className="h-4 w-4" />
+            {downloading ? "Preparando..." : "Baixar"}
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            className="gap-2"
+            disabled={selectedIds.size === 0}
+            onClick={handleBulkDelete}
+          >
+            <Trash2 className="h-4 w-4" />
+            Excluir
+          </Button>
+        </div>
+      )}
+
+      <AddToAlbumDialog
+        open={albumDialogOpen}
+        onOpenChange={setAlbumDialogOpen}
+        userId={user.id}
+        photos={selectedPhotos}
+        onAdded={exitSelection}
+      />
+
+      <Dialog open={bulkDescriptionOpen} onOpenChange={setBulkDescriptionOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Definir descrição</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleBulkDescription} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-description">
+                Descrição para {selectedIds.size} {selectedIds.size === 1 ? "foto" : "fotos"}
+              </Label>
+              <Textarea
+                id="bulk-description"
+                value={bulkDescription}
+                onChange={(e) => setBulkDescription(e.target.value)}
+                placeholder="Deixe em branco para remover a descrição"
+                rows={3}
+              />
+            </div>
+            <Button type="submit" className="w-full">
+              Aplicar
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={bulkTagsOpen} onOpenChange={setBulkTagsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adicionar tags</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleBulkTags} className="space-y-4">
+            <div className="space-y-2">
+              <Label>
+                Tags para {selectedIds.size} {selectedIds.size === 1 ? "foto" : "fotos"}
+              </Label>
+              <TagInput tags={tags} value={bulkTags} onChange={setBulkTags} onCreate={createTag} />
+            </div>
+            <Button type="submit" className="w-full" disabled={bulkTags.length === 0}>
+              Aplicar
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Sheet open={!!infoPhoto} onOpenChange={(open) => !open && setInfoPhotoId(null)}>
+        <SheetContent>
+          <SheetHeader>
+            <SheetTitle>Informações da foto</SheetTitle>
+          </SheetHeader>
+          {infoPhoto && (
+            <div className="mt-6">
+              <PhotoInfoPanel
+                photo={infoPhoto}
+                metadata={infoMetadata}
+                loading={infoLoading}
+                onUpdate={(patch) => handleUpdatePhotos([infoPhoto.id], patch)}
+              />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <DropOverlay onFiles={(files) => uploadQueue.enqueue(files)} disabled={dialogOpen} />
+      <UploadQueue
+        items={uploadQueue.items}
+        onCancel={uploadQueue.cancel}
+        onRetry={uploadQueue.retry}
+        onClear={uploadQueue.clearFinished}
+      />
     </div>
   );
 };
@@ -0,0 +1,377 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Info, X } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Carousel, CarouselApi, CarouselContent, CarouselItem } from "@/components/ui/carousel";
+import ZoomableImage from "@/components/ZoomableImage";
+import PhotoInfoPanel from "@/components/PhotoInfoPanel";
+import TagInput from "@/components/TagInput";
+import type { PhotoTextPatch } from "@/components/PhotoTile";
+import { comparePhotos, PhotoSort } from "@/lib/photo-groups";
+import { matchesPhotoFilters, parsePhotoFilters, writePhotoFilters } from "@/lib/photo-filters";
+import { sortAlbumPhotos } from "@/lib/album-sort";
+import { addPhotoTags, removePhotoTags, Tag, tagsFromEmbed } from "@/lib/tags";
+import { queryKeys } from "@/lib/query-keys";
+import { useTags } from "@/hooks/use-tags";
+import { AlbumPhoto, useAlbum, useAlbumPhotos } from "@/hooks/use-albums";
+import { flattenPhotoPages, updateCachedPhotos, usePhotoCounts, usePhotoPages, useUpdatePhotos } from "@/hooks/use-photos";
+import type { Tables } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+
+type Photo = Pick<
+  Tables<"photos">,
+  | "id"
+  | "user_id"
+  | "path"
+  | "title"
+  | "description"
+  | "created_at"
+  | "taken_at"
+  | "small_path"
+  | "medium_path"
+  | "large_path"
+  | "small_width"
+  | "medium_width"
+  | "large_width"
+>;
+
+// Only slides this close to the current one mount their image.
+const PRELOAD_DISTANCE = 1;
+// Slides in the carousel at once; it is rebuilt around the current photo when that nears either end.
+const WINDOW_SIZE = 21;
+// The next library page is requested while this many loaded photos are still ahead.
+const LOAD_MORE_DISTANCE = 5;
+
+const PhotoViewer = () => {
+  const { id: albumId, photoId } = useParams();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [windowStart, setWindowStart] = useState(0);
+  const [api, setApi] = useState<CarouselApi>();
+  const [zoomed, setZoomed] = useState(false);
+  const [showInfo, setShowInfo] = useState(() => window.innerWidth >= 768);
+  const [metadata, setMetadata] = useState<Tables<"photo_metadata"> | null>(null);
+  const [metadataLoading, setMetadataLoading] = useState(false);
+  const [photoTags, setPhotoTags] = useState<Tag[]>([]);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { tags, createTag } = useTags(user?.id);
+  const sort = (searchParams.get("sort") as PhotoSort) || "taken";
+  const filters = useMemo(() => parsePhotoFilters(searchParams), [searchParams]);
+  const basePath = albumId ? `/album/${albumId}` : "/";
+
+  // The library is read a page at a time with the grid's sort and filters, so
+  // pages the grid already loaded are reused; albums load whole, as on their page.
+  const libraryUserId = albumId ? undefined : user?.id;
+  const photoPages = usePhotoPages(libraryUserId, sort, filters);
+  const { data: counts } = usePhotoCounts(libraryUserId, filters);
+  const { data: albumDetail, error: albumError } = useAlbum(albumId, !!user);
+  const { data: albumPhotos, error: albumPhotosError } = useAlbumPhotos(albumId, !!user);
+  const updatePhotos = useUpdatePhotos();
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = photoPages;
+  const loadError = photoPages.error || albumError || albumPhotosError;
+
+  const photos = useMemo<Photo[] | null>(() => {
+    if (albumId) {
+      return albumPhotos && albumDetail ? sortAlbumPhotos(albumPhotos, albumDetail.album.sort_mode) : null;
+    }
+    if (!photoPages.data) return null;
+    // Same order as the grid, which re-sorts uploads prepended to the first page.
+    return flattenPhotoPages(photoPages.data)
+      .filter((photo) => matchesPhotoFilters(photo, filters))
+      .sort(comparePhotos(sort));
+  }, [albumId, albumPhotos, albumDetail, photoPages.data, filters, sort]);
+
+  const index = photos ? photos.findIndex((photo) => photo.id === photoId) : -1;
+  const total = albumId ? photos?.length ?? 0 : counts?.matching ?? photos?.length ?? 0;
+  // Library photos past the loaded pages are reached by paging on until they turn up.
+  const notFound = !!photos && index === -1 && (!!albumId || (!hasNextPage && !isFetchingNextPage));
+
+  useEffect(() => {
+    if (albumId || !photos || !hasNextPage || isFetchingNextPage) return;
+    if (index === -1 || index >= photos.length - LOAD_MORE_DISTANCE) fetchNextPage();
+  }, [albumId, photos, index, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  useEffect(() => {
+    if (!loadError) return;
+    toast({
+      title: "Erro ao carregar fotos",
+      description: loadError.message,
+      variant: "destructive",
+    });
+    navigate(basePath);
+  }, [loadError, toast, navigate, basePath]);
+
+  useEffect(() => {
+    if (!notFound) return;
+    toast({
+      title: "Foto não encontrada",
+      variant: "destructive",
+    });
+    navigate(basePath);
+  }, [notFound, toast, navigate, basePath]);
+
+  // Recentre the window as soon as the current photo is about to leave it.
+  if (index !== -1 && (index - windowStart < PRELOAD_DISTANCE || windowStart + WINDOW_SIZE - index <= PRELOAD_DISTANCE)) {
+    const centred = Math.max(0, index - Math.floor(WINDOW_SIZE / 2));
+    if (centred !== windowStart) setWindowStart(centred);
+  }
+  const slides = useMemo(() => photos?.slice(windowStart, windowStart + WINDOW_SIZE) ?? [], [photos, windowStart]);
+  const slide = index - windowStart;
+
+  const current = index === -1 ? undefined : photos[index];
+  const currentId = current?.id;
+
+  useEffect(() => {
+    if (!currentId) return;
+
+    let cancelled = false;
+    setMetadata(null);
+    setMetadataLoading(true);
+    supabase
+      .from("photo_metadata")
+      .select("*")
+      .eq("photo_id", currentId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (cancelled) return;
+        setMetadata(data);
+        setMetadataLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentId]);
+
+  const ownsCurrent = !!current && current.user_id === user?.id;
+
+  // Tags are personal, so they are only loaded for the user's own photos.
+  useEffect(() => {
+    setPhotoTags([]);
+    if (!ownsCurrent) return;
+
+    let cancelled = false;
+    supabase
+      .from("photo_tags")
+      .select("tags(id, name)")
+      .eq("photo_id", currentId)
+      .then(({ data }) => {
+        if (!cancelled) setPhotoTags(tagsFromEmbed(data));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentId, ownsCurrent]);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const handleSelect = () => {
+      const selected = slides[api.selectedScrollSnap()];
+      if (!selected || selected.id === photoId) return;
+      navigate(
+        { pathname: `${albumId ? `/album/${albumId}` : ""}/photo/${selected.id}`, search: location.search },
+        { replace: true }
+      );
+    };
+
+    api.on("select", handleSelect);
+    return () => {
+      api.off("select", handleSelect);
+    };
+  }, [api, slides, photoId, albumId, location.search, navigate]);
+
+  // Photos added or removed elsewhere shift the slides under the current one.
+  useEffect(() => {
+    if (api && slide >= 0 && api.selectedScrollSnap() !== slide) api.scrollTo(slide, true);
+  }, [api, slide]);
+
+  const handleUpdate = (photoId: string, patch: PhotoTextPatch) => {
+    const albumPhotosKey = queryKeys.albums.photos(albumId ?? "");
+    const previousAlbumPhotos = albumId ? queryClient.getQueryData<AlbumPhoto[]>(albumPhotosKey) : undefined;
+    if (albumId) {
+      queryClient.setQueryData<AlbumPhoto[]>(albumPhotosKey, (prev) =>
+        prev?.map((photo) => (photo.id === photoId ? { ...photo, ...patch } : photo))
+      );
+    }
+
+    updatePhotos.mutate(
+      { photoIds: [photoId], patch },
+      {
+        onError: (error) => {
+          if (albumId) queryClient.setQueryData(albumPhotosKey, previousAlbumPhotos);
+          toast({
+            title: "Erro ao atualizar foto",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const handleTagsChange = async (photoId: string, next: Tag[]) => {
+    const previous = photoTags;
+    const nextIds = new Set(next.map((tag) => tag.id));
+    const previousIds = new Set(previous.map((tag) => tag.id));
+    const added = next.filter((tag) => !previousIds.has(tag.id)).map((tag) => tag.id);
+    const removed = previous.filter((tag) => !nextIds.has(tag.id)).map((tag) => tag.id);
+
+    setPhotoTags(next);
+
+    const error =
+      (added.length > 0 ? await addPhotoTags([photoId], added) : null) ||
+      (removed.length > 0 ? await removePhotoTags([photoId], removed) : null);
+
+    if (error) {
+      setPhotoTags(previous);
+      toast({
+        title: "Erro ao atualizar tags",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      updateCachedPhotos(queryClient, (photo) => (photo.id === photoId ? { ...photo, tags: next } : photo));
+    }
+  };
+
+  const close = useCallback(
+    () =>
+      navigate({
+        pathname: basePath,
+        search: albumId ? "" : writePhotoFilters(new URLSearchParams(), filters).toString(),
+      }),
+    [navigate, basePath, albumId, filters]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      if (e.key === "ArrowLeft") {
+        api?.scrollPrev();
+      } else if (e.key === "ArrowRight") {
+        api?.scrollNext();
+      } else if (e.key === "Escape") {
+        close();
+      } else if (e.key === "i") {
+        setShowInfo((prev) => !prev);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [api, close]);
+
+  if (!user || !photos || !current) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex bg-black text-white">
+      <div className="relative flex-1 min-w-0">
+        <div className="absolute top-0 left-0 right-0 z-10 flex items-center justify-between p-4">
+          <Button
+            size="icon"
+            variant="ghost"
+            className="text-white hover:bg-white/10 hover:text-white"
+            onClick={close}
+            title="Fechar (Esc)"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+          <span className="text-sm text-white/70">
+            {index + 1} / {total}
+          </span>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="text-white hover:bg-white/10 hover:text-white"
+            onClick={() => setShowInfo((prev) => !prev)}
+            title="Informações (i)"
+          >
+            <Info className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <Carousel
+          key={windowStart}
+          setApi={setApi}
+          opts={{ startIndex: slide, watchDrag: !zoomed, duration: 20 }}
+          className="h-full"
+        >
+          <CarouselContent className="ml-0 h-[100dvh]">
+            {slides.map((photo, i) => (
+              <CarouselItem key={photo.id} className="pl-0 h-full">
+                {Math.abs(i - slide) <= PRELOAD_DISTANCE ? (
+                  <ZoomableImage
+                    photo={photo}
+                    alt={photo.title || "Foto"}
+                    active={i === slide}
+                    onZoomChange={setZoomed}
+                  />
+                ) : null}
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+        </Carousel>
+
+        {index > 0 && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="absolute left-4 top-1/2 -translate-y-1/2 h-12 w-12 rounded-full text-white hover:bg-white/10 hover:text-white"
+            onClick={() => api?.scrollPrev()}
+            title="Anterior (←)"
+          >
+            <ChevronLeft className="h-8 w-8" />
+          </Button>
+        )}
+        {index < photos.length - 1 && (
+          <Button
+            size="icon"
+            variant="ghost"
+            className="absolute right-4 top-1/2 -translate-y-1/2 h-12 w-12 rounded-full text-white hover:bg-white/10 hover:text-white"
+            onClick={() => api?.scrollNext()}
+            title="Próxima (→)"
+          >
+            <ChevronRight className="h-8 w-8" />
+          </Button>
+        )}
+      </div>
+
+      <aside
+        className={cn(
+          "absolute inset-x-0 bottom-0 z-20 max-h-[50vh] overflow-y-auto bg-background p-6 text-foreground md:static md:max-h-none md:w-80 md:shrink-0 md:border-l md:border-white/10",
+          !showInfo && "hidden"
+        )}
+      >
+        <PhotoInfoPanel
+          photo={current}
+          metadata={metadata}
+          loading={metadataLoading}
+          onUpdate={ownsCurrent ? (patch) => handleUpdate(current.id, patch) : undefined}
+        />
+        {ownsCurrent && (
+          <div className="mt-4 space-y-2">
+            <p className="text-xs text-muted-foreground">Tags</p>
+            <TagInput
+              tags={tags}
+              value={photoTags}
+              onChange={(next) => handleTagsChange(current.id, next)}
+              onCreate={createTag}
+            />
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default PhotoViewer;
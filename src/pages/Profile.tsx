@@ -1,89 +1,85 @@
 import { useEffect, useState } from "react";
-import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import Header from "@/components/Header";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { hasLegacyAvatar, useMoveLegacyAvatar, useProfile, useUpdateProfile } from "@/hooks/use-profile";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import StorageUsageCard from "@/components/StorageUsageCard";
+import ChangeEmailDialog from "@/components/ChangeEmailDialog";
 import { Camera } from "lucide-react";
 
 const Profile = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useAuth();
   const [displayName, setDisplayName] = useState("");
-  const [avatarUrl, setAvatarUrl] = useState("");
-  const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
-  const navigate = useNavigate();
+  const [emailDialogOpen, setEmailDialogOpen] = useState(false);
   const { toast } = useToast();
+  const { data: profile, isLoading: loading } = useProfile(user?.id);
+  const updateProfile = useUpdateProfile(user?.id);
+  const moveAvatar = useMoveLegacyAvatar(user?.id);
+  const avatarUrl = profile?.avatar_url || "";
 
+  // The form starts from the stored name once it arrives; later refetches do not overwrite typing.
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session?.user) {
-        setUser(session.user);
-        loadProfile(session.user.id);
-      } else {
-        navigate("/auth");
-      }
-    });
+    if (profile) setDisplayName((current) => current || profile.display_name || "");
+  }, [profile]);
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (session?.user) {
-        setUser(session.user);
-        loadProfile(session.user.id);
-      } else {
-        navigate("/auth");
-      }
+  // Tried once per visit; a failure keeps the old URL for the next one.
+  const { isIdle: avatarMoveIdle, mutate: moveLegacyAvatar } = moveAvatar;
+  useEffect(() => {
+    if (!profile || !hasLegacyAvatar(profile) || !avatarMoveIdle) return;
+    moveLegacyAvatar(profile, {
+      onError: (error) =>
+        toast({
+          title: "Erro ao mover avatar",
+          description: error.message,
+          variant: "destructive",
+        }),
     });
+  }, [profile, avatarMoveIdle, moveLegacyAvatar, toast]);
 
-    return () => subscription.unsubscribe();
-  }, [navigate]);
-
-  const loadProfile = async (userId: string) => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("*")
-      .eq("user_id", userId)
-      .single();
-
-    if (data) {
-      setDisplayName(data.display_name || "");
-      setAvatarUrl(data.avatar_url || "");
-    }
-    setLoading(false);
-  };
-
-  const handleSave = async (e: React.FormEvent) => {
+  const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
-    setSaving(true);
-    const { error } = await supabase
-      .from("profiles")
-      .update({
-        display_name: displayName || null,
-        avatar_url: avatarUrl || null,
-      })
-      .eq("user_id", user.id);
+    updateProfile.mutate(
+      { display_name: displayName || null },
+      {
+        onError: (error) =>
+          toast({
+            title: "Erro ao salvar perfil",
+            description: error.message,
+            variant: "destructive",
+          }),
+        onSuccess: () =>
+          toast({
+            title: "Perfil atualizado!",
+            description: "Suas informações foram salvas.",
+          }),
+      }
+    );
+  };
+
+  const handleResendEmailChange = async () => {
+    const { error } = await supabase.auth.resend({ type: "email_change", email: user.new_email });
 
     if (error) {
       toast({
-        title: "Erro ao salvar perfil",
+        title: "Erro ao reenviar",
         description: error.message,
         variant: "destructive",
       });
     } else {
       toast({
-        title: "Perfil atualizado!",
-        description: "Suas informações foram salvas.",
+        title: "Link reenviado",
+        description: `Verifique a caixa de entrada de ${user.new_email}.`,
       });
     }
-    setSaving(false);
   };
 
   const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -96,7 +92,7 @@ const Profile = () => {
     const fileName = `${user.id}/avatar.${fileExt}`;
 
     const { error: uploadError } = await supabase.storage
-      .from("photos")
+      .from("avatars")
       .upload(fileName, file, { upsert: true });
 
     if (uploadError) {
@@ -110,33 +106,25 @@ const Profile = () => {
     }
 
     const { data: { publicUrl } } = supabase.storage
-      .from("photos")
+      .from("avatars")
       .getPublicUrl(fileName);
 
-    setAvatarUrl(publicUrl);
-
-    const { error: updateError } = await supabase
-      .from("profiles")
-      .update({ avatar_url: publicUrl })
-      .eq("user_id", user.id);
-
-    if (updateError) {
-      toast({
-        title: "Erro ao atualizar avatar",
-        description: updateError.message,
-        variant: "destructive",
-      });
-    } else {
+    try {
+      await updateProfile.mutateAsync({ avatar_url: publicUrl });
       toast({
         title: "Avatar atualizado!",
         description: "Sua foto de perfil foi atualizada.",
       });
+    } catch (error) {
+      toast({
+        title: "Erro ao atualizar avatar",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     }
     setUploading(false);
   };
 
-  if (!user) return null;
-
   return (
     <div className="min-h-screen bg-background">
       <Header user={user} />
@@ -183,16 +171,26 @@ const Profile = () => {
 
               <div className="space-y-2">
                 <Label htmlFor="email">Email</Label>
-                <Input
-                  id="email"
-                  type="email"
-                  value={user.email}
-                  disabled
-                  className="bg-muted"
-                />
-                <p className="text-xs text-muted-foreground">
-                  O email não pode ser alterado
-                </p>
+                <div className="flex gap-2">
+                  <Input
+                    id="email"
+                    type="email"
+                    value={user.email}
+                    disabled
+                    className="bg-muted"
+                  />
+                  <Button type="button" variant="outline" onClick={() => setEmailDialogOpen(true)}>
+                    Alterar
+                  </Button>
+                </div>
+                {user.new_email && (
+                  <p className="text-xs text-muted-foreground">
+                    Aguardando confirmação de {user.new_email}.{" "}
+                    <button type="button" className="underline hover:text-foreground" onClick={handleResendEmailChange}>
+                      Reenviar link
+                    </button>
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
@@ -205,13 +203,19 @@ const Profile = () => {
                 />
               </div>
 
-              <Button type="submit" className="w-full" disabled={saving || loading}>
-                {saving ? "Salvando..." : "Salvar Alterações"}
+              <Button type="submit" className="w-full" disabled={updateProfile.isPending || loading}>
+                {updateProfile.isPending ? "Salvando..." : "Salvar Alterações"}
               </Button>
             </form>
           </CardContent>
         </Card>
+
+        <div className="mt-6">
+          <StorageUsageCard />
+        </div>
       </main>
+
+      <ChangeEmailDialog open={emailDialogOpen} onOpenChange={setEmailDialogOpen} currentEmail={user.email} />
     </div>
   );
 };
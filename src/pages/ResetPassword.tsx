@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import LoadingScreen from "@/components/LoadingScreen";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound } from "lucide-react";
+
+/**
+ * Where the "Esqueci minha senha" email lands. The Supabase client signs the
+ * user in from the recovery token in the URL, then they pick a new password.
+ * An ordinary session cannot set a password here without the current one, so
+ * it is sent to the profile instead.
+ */
+const ResetPassword = () => {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [loading, setLoading] = useState(false);
+  // Expired or reused links come back with the reason in the fragment instead of a token.
+  const [linkError] = useState(() => new URLSearchParams(window.location.hash.slice(1)).get("error_description"));
+  const { user, loading: authLoading, recovering } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmation) {
+      toast({
+        title: "As senhas não coincidem",
+        description: "Digite a mesma senha nos dois campos.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) {
+      toast({
+        title: "Erro ao alterar senha",
+        description: error.message,
+        variant: "destructive",
+      });
+      setLoading(false);
+    } else {
+      toast({
+        title: "Senha alterada",
+        description: "Use a nova senha no próximo login.",
+      });
+      navigate("/", { replace: true });
+    }
+  };
+
+  if (authLoading) return <LoadingScreen />;
+  // Saving the password also ends the recovery; the submit handler then goes home.
+  if (user && !recovering && !loading) return <Navigate to="/profile" replace />;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-muted/30 to-background p-4">
+      <Card className="w-full max-w-md shadow-hover">
+        <CardHeader className="space-y-3 text-center">
+          <div className="mx-auto w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+            <KeyRound className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle className="text-2xl">{user ? "Nova senha" : "Link inválido"}</CardTitle>
+          <CardDescription>
+            {user
+              ? `Escolha uma nova senha para ${user.email}`
+              : linkError || "O link para redefinir a senha expirou ou já foi usado. Peça um novo."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {user ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">Nova senha</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={6}
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirmar senha</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  required
+                  minLength={6}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? "Salvando..." : "Salvar nova senha"}
+              </Button>
+            </form>
+          ) : (
+            <Button className="w-full" onClick={() => navigate("/auth", { replace: true })}>
+              Voltar para o login
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
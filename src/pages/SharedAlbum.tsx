@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, Image, Lock } from "lucide-react";
+import PhotoImage from "@/components/PhotoImage";
+import { sortAlbumPhotos } from "@/lib/album-sort";
+import { SignedUrlContext } from "@/lib/signed-urls";
+import {
+  createShareUrlCache,
+  SHARE_ERROR_MESSAGES,
+  ShareError,
+  SharedAlbum as SharedAlbumData,
+  toShareError,
+} from "@/lib/share";
+
+const SharedAlbum = () => {
+  const { token } = useParams();
+  const [shared, setShared] = useState<SharedAlbumData | null>(null);
+  const [error, setError] = useState<ShareError | null>(null);
+  const [password, setPassword] = useState("");
+  const [acceptedPassword, setAcceptedPassword] = useState<string>();
+  const [loading, setLoading] = useState(true);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const loadAlbum = useCallback(
+    async (sharePassword?: string) => {
+      if (!token) return;
+
+      setLoading(true);
+      const { data, error } = await supabase.rpc("get_shared_album", {
+        share_token: token,
+        share_password: sharePassword,
+      });
+
+      if (error) {
+        setError(toShareError(error.message));
+      } else {
+        const result = data as unknown as SharedAlbumData;
+        setShared({ ...result, photos: sortAlbumPhotos(result.photos, result.album.sort_mode) });
+        setAcceptedPassword(sharePassword);
+        setError(null);
+      }
+      setLoading(false);
+    },
+    [token]
+  );
+
+  useEffect(() => {
+    loadAlbum();
+  }, [loadAlbum]);
+
+  const urlCache = useMemo(
+    () => (token ? createShareUrlCache(token, acceptedPassword) : undefined),
+    [token, acceptedPassword]
+  );
+  const photos = shared?.photos ?? [];
+  const openPhoto = openIndex !== null ? photos[openIndex] : null;
+
+  const photoCount = photos.length;
+  const step = useCallback(
+    (delta: number) =>
+      setOpenIndex((index) => (index === null ? null : (index + delta + photoCount) % photoCount)),
+    [photoCount]
+  );
+
+  useEffect(() => {
+    if (openIndex === null) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "ArrowLeft") step(-1);
+      if (e.key === "ArrowRight") step(1);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [openIndex, step]);
+
+  if (!shared || !urlCache) {
+    const needsPassword = error === "share_password_required" || error === "share_password_invalid";
+
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-muted/30 to-background p-4">
+        <Card className="w-full max-w-md shadow-hover">
+          <CardHeader className="space-y-3 text-center">
+            <div className="mx-auto w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center">
+              {needsPassword ? <Lock className="h-6 w-6 text-primary" /> : <Image className="h-6 w-6 text-primary" />}
+            </div>
+            <CardTitle className="text-2xl">{needsPassword ? "Álbum protegido" : "PhotoGallery"}</CardTitle>
+            <CardDescription>
+              {loading && !error ? "Carregando álbum..." : error && SHARE_ERROR_MESSAGES[error]}
+            </CardDescription>
+          </CardHeader>
+          {needsPassword && (
+            <CardContent>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  loadAlbum(password);
+                }}
+                className="space-y-4"
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="share-password">Senha</Label>
+                  <Input
+                    id="share-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    autoFocus
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading ? "Verificando..." : "Ver álbum"}
+                </Button>
+              </form>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <SignedUrlContext.Provider value={urlCache}>
+      <div className="min-h-screen bg-background">
+        <header className="border-b">
+          <div className="container flex h-16 items-center gap-2">
+            <Image className="h-6 w-6 text-primary" />
+            <span className="text-xl font-semibold">PhotoGallery</span>
+          </div>
+        </header>
+
+        <main className="container py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">{shared.album.name}</h1>
+            {shared.album.description && (
+              <p className="text-muted-foreground mb-2">{shared.album.description}</p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              {photos.length} {photos.length === 1 ? "foto" : "fotos"}
+            </p>
+          </div>
+
+          {photos.length === 0 ? (
+            <div className="text-center py-12 bg-muted/30 rounded-lg">
+              <h3 className="text-lg font-medium">Nenhuma foto neste álbum</h3>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {photos.map((photo, index) => (
+                <button
+                  key={photo.id}
+                  type="button"
+                  className="group relative aspect-square overflow-hidden rounded-lg bg-muted shadow-soft hover:shadow-hover transition-all"
+                  onClick={() => setOpenIndex(index)}
+                >
+                  <PhotoImage
+                    photo={photo}
+                    alt={photo.title || "Foto"}
+                    className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                  />
+                  {photo.title && (
+                    <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
+                      <h3 className="absolute bottom-0 left-0 right-0 p-4 text-left text-white font-medium line-clamp-1">
+                        {photo.title}
+                      </h3>
+                    </div>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </main>
+
+        <Dialog open={!!openPhoto} onOpenChange={(open) => !open && setOpenIndex(null)}>
+          <DialogContent className="max-w-5xl p-2 bg-black border-none">
+            <DialogTitle className="sr-only">{openPhoto?.title || "Foto"}</DialogTitle>
+            {openPhoto && (
+              <div className="relative">
+                <PhotoImage
+                  photo={openPhoto}
+                  variant="large"
+                  sizes="100vw"
+                  loading="eager"
+                  alt={openPhoto.title || "Foto"}
+                  className="max-h-[85vh] w-full object-contain"
+                />
+                {photos.length > 1 && (
+                  <>
+                    <Button
+                      size="icon"
+                      variant="secondary"
+                      className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full"
+                      onClick={() => step(-1)}
+                      aria-label="Foto anterior"
+                    >
+                      <ChevronLeft className="h-5 w-5" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="secondary"
+                      className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full"
+                      onClick={() => step(1)}
+                      aria-label="Próxima foto"
+                    >
+                      <ChevronRight className="h-5 w-5" />
+                    </Button>
+                  </>
+                )}
+                {(openPhoto.title || openPhoto.description) && (
+                  <div className="p-3 text-white">
+                    {openPhoto.title && <p className="font-medium">{openPhoto.title}</p>}
+                    {openPhoto.description && <p className="text-sm text-white/80">{openPhoto.description}</p>}
+                  </div>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </SignedUrlContext.Provider>
+  );
+};
+
+export default SharedAlbum;
@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { differenceInCalendarDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import Header from "@/components/Header";
+import PhotoImage from "@/components/PhotoImage";
+import { Button } from "@/components/ui/button";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryKeys } from "@/lib/query-keys";
+import { getPhotoStoragePaths, PHOTOS_BUCKET } from "@/lib/upload";
+import type { Tables } from "@/integrations/supabase/types";
+
+const RETENTION_DAYS = 30;
+
+const daysLeft = (deletedAt: string | null) => {
+  if (!deletedAt) return RETENTION_DAYS;
+  return Math.max(0, RETENTION_DAYS - differenceInCalendarDays(new Date(), new Date(deletedAt)));
+};
+
+const daysLeftLabel = (deletedAt: string | null) => {
+  const days = daysLeft(deletedAt);
+  return days === 1 ? "Excluído em 1 dia" : `Excluído em ${days} dias`;
+};
+
+const Trash = () => {
+  const { user } = useAuth();
+  const [photos, setPhotos] = useState<Tables<"photos">[]>([]);
+  const [albums, setAlbums] = useState<Tables<"albums">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    const [photosResult, albumsResult] = await Promise.all([
+      supabase.rpc("list_trashed_photos"),
+      supabase.rpc("list_trashed_albums"),
+    ]);
+
+    const error = photosResult.error || albumsResult.error;
+    if (error) {
+      toast({
+        title: "Erro ao carregar lixeira",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      setPhotos(photosResult.data || []);
+      setAlbums(albumsResult.data || []);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [user?.id, loadTrash]);
+
+  const handleRestorePhotos = async (photoIds: string[]) => {
+    const { error } = await supabase.rpc("restore_photos", { photo_ids: photoIds });
+
+    if (error) {
+      toast({
+        title: "Erro ao restaurar",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Foto restaurada",
+        description: "A foto voltou para a sua biblioteca.",
+      });
+      setPhotos((prev) => prev.filter((photo) => !photoIds.includes(photo.id)));
+      queryClient.invalidateQueries({ queryKey: queryKeys.photos.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.all });
+    }
+  };
+
+  const handleRestoreAlbums = async (albumIds: string[]) => {
+    const { error } = await supabase.rpc("restore_albums", { album_ids: albumIds });
+
+    if (error) {
+      toast({
+        title: "Erro ao restaurar",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Álbum restaurado",
+        description: "O álbum voltou para a sua lista de álbuns.",
+      });
+      setAlbums((prev) => prev.filter((album) => !albumIds.includes(album.id)));
+      queryClient.invalidateQueries({ queryKey: queryKeys.albums.all });
+    }
+  };
+
+  const deletePhotosPermanently = async (photoIds: string[]) => {
+    const { data, error } = await supabase.rpc("delete_photos_permanently", { photo_ids: photoIds });
+
+    if (error) {
+      toast({
+        title: "Erro ao excluir",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    const paths = (data || []).flatMap(getPhotoStoragePaths);
+    if (paths.length > 0) {
+      const { error: removeError } = await supabase.storage.from(PHOTOS_BUCKET).remove(paths);
+      if (removeError) {
+        // The photos are gone already; only their files are left behind.
+        toast({
+          title: "Erro ao remover arquivos",
+          description: removeError.message,
+          variant: "destructive",
+        });
+      }
+    }
+    setPhotos((prev) => prev.filter((photo) => !photoIds.includes(photo.id)));
+    return true;
+  };
+
+  const deleteAlbumsPermanently = async (albumIds: string[]) => {
+    const { error } = await supabase.rpc("delete_albums_permanently", { album_ids: albumIds });
+
+    if (error) {
+      toast({
+        title: "Erro ao excluir",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setAlbums((prev) => prev.filter((album) => !albumIds.includes(album.id)));
+    return true;
+  };
+
+  const handleDeletePhoto = async (photoId: string) => {
+    if (!confirm("Excluir esta foto permanentemente? Esta ação não pode ser desfeita.")) return;
+    if (await deletePhotosPermanently([photoId])) {
+      toast({
+        title: "Foto excluída",
+        description: "A foto foi excluída permanentemente.",
+      });
+    }
+  };
+
+  const handleDeleteAlbum = async (albumId: string) => {
+    if (!confirm("Excluir este álbum permanentemente? As fotos continuam na sua biblioteca.")) return;
+    if (await deleteAlbumsPermanently([albumId])) {
+      toast({
+        title: "Álbum excluído",
+        description: "O álbum foi excluído permanentemente.",
+      });
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm("Esvaziar a lixeira? Todos os itens serão excluídos permanentemente.")) return;
+
+    const results = await Promise.all([
+      photos.length > 0 ? deletePhotosPermanently(photos.map((photo) => photo.id)) : true,
+      albums.length > 0 ? deleteAlbumsPermanently(albums.map((album) => album.id)) : true,
+    ]);
+
+    if (results.every(Boolean)) {
+      toast({
+        title: "Lixeira esvaziada",
+        description: "Todos os itens foram excluídos permanentemente.",
+      });
+    }
+  };
+
+  const total = photos.length + albums.length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header user={user} />
+
+      <main className="container py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Lixeira</h1>
+            <p className="text-muted-foreground">
+              Itens na lixeira são excluídos permanentemente após {RETENTION_DAYS} dias
+            </p>
+          </div>
+
+          <Button variant="destructive" className="gap-2" onClick={handleEmptyTrash} disabled={total === 0}>
+            <Trash2 className="h-4 w-4" />
+            Esvaziar lixeira
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Carregando lixeira...</p>
+          </div>
+        ) : (
+          <Tabs defaultValue="photos">
+            <TabsList>
+              <TabsTrigger value="photos">Fotos ({photos.length})</TabsTrigger>
+              <TabsTrigger value="albums">Álbuns ({albums.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="photos" className="mt-6">
+              {photos.length === 0 ? (
+                <div className="text-center py-12 bg-muted/30 rounded-lg">
+                  <Trash2 className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <h3 className="text-lg font-medium">Nenhuma foto na lixeira</h3>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                  {photos.map((photo) => (
+                    <div
+                      key={photo.id}
+                      className="group relative aspect-square overflow-hidden rounded-lg bg-muted shadow-soft"
+                    >
+                      <PhotoImage
+                        photo={photo}
+                        alt={photo.title || "Foto"}
+                        className="w-full h-full object-cover opacity-70"
+                      />
+                      <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-transparent to-transparent">
+                        <div className="absolute bottom-0 left-0 right-0 p-4">
+                          {photo.title && (
+                            <h3 className="text-white font-medium mb-1 line-clamp-1">{photo.title}</h3>
+                          )}
+                          <p className="text-white/80 text-xs mb-3">{daysLeftLabel(photo.deleted_at)}</p>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              className="gap-2"
+                              onClick={() => handleRestorePhotos([photo.id])}
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                              Restaurar
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              className="gap-2"
+                              onClick={() => handleDeletePhoto(photo.id)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                              Excluir
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="albums" className="mt-6">
+              {albums.length === 0 ? (
+                <div className="text-center py-12 bg-muted/30 rounded-lg">
+                  <Trash2 className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <h3 className="text-lg font-medium">Nenhum álbum na lixeira</h3>
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {albums.map((album) => (
+                    <Card key={album.id}>
+                      <CardHeader>
+                        <CardTitle className="line-clamp-1">{album.name}</CardTitle>
+                        <CardDescription>{daysLeftLabel(album.deleted_at)}</CardDescription>
+                        <div className="flex gap-2 pt-2">
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            className="gap-2"
+                            onClick={() => handleRestoreAlbums([album.id])}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                            Restaurar
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="gap-2 text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleDeleteAlbum(album.id)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                            Excluir
+                          </Button>
+                        </div>
+                      </CardHeader>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,45 @@
+/// <reference lib="webworker" />
+
+export interface ResizeRequest {
+  id: string;
+  file: Blob;
+  sizes: [string, number][];
+  type: string;
+  quality: number;
+}
+
+export interface ResizeResponse {
+  id: string;
+  variants?: Record<string, { blob: Blob; width: number }>;
+  error?: string;
+}
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+
+ctx.onmessage = async (e: MessageEvent<ResizeRequest>) => {
+  const { id, file, sizes, type, quality } = e.data;
+
+  try {
+    const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+    const longestEdge = Math.max(bitmap.width, bitmap.height);
+    const variants: Record<string, { blob: Blob; width: number }> = {};
+
+    for (const [name, maxEdge] of sizes) {
+      const scale = Math.min(1, maxEdge / longestEdge);
+      const canvas = new OffscreenCanvas(
+        Math.round(bitmap.width * scale),
+        Math.round(bitmap.height * scale)
+      );
+      const context = canvas.getContext("2d");
+      if (!context) throw new Error("OffscreenCanvas 2D context unavailable");
+      context.imageSmoothingQuality = "high";
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      variants[name] = { blob: await canvas.convertToBlob({ type, quality }), width: canvas.width };
+    }
+
+    bitmap.close();
+    ctx.postMessage({ id, variants } satisfies ResizeResponse);
+  } catch (error) {
+    ctx.postMessage({ id, error: (error as Error).message } satisfies ResizeResponse);
+  }
+};
@@ -0,0 +1,41 @@
+// Empties everything that has been in the trash for more than 30 days. Run
+// daily by pg_cron: the database deletes the expired rows and returns their
+// storage paths, and the files are removed here through the Storage API so
+// the stored objects go too, not only their metadata.
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const PHOTOS_BUCKET = "photos";
+// Storage accepts at most 1000 paths per remove call.
+const REMOVE_BATCH_SIZE = 1000;
+
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+Deno.serve(async (req) => {
+  // Only the scheduled job may purge.
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+  const { data: paths, error } = await supabase.rpc("purge_trash");
+  if (error) {
+    console.error("purge_trash failed:", error.message);
+    return new Response(error.message, { status: 500 });
+  }
+
+  const failed: string[] = [];
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const batch = paths.slice(i, i + REMOVE_BATCH_SIZE);
+    const { error: removeError } = await supabase.storage.from(PHOTOS_BUCKET).remove(batch);
+    if (removeError) {
+      // The rows are gone already; log the paths so the files can be cleaned up by hand.
+      console.error("Failed to remove files:", removeError.message, batch);
+      failed.push(...batch);
+    }
+  }
+
+  return Response.json({ removed: paths.length - failed.length, failed: failed.length }, {
+    status: failed.length > 0 ? 500 : 200,
+  });
+});
@@ -0,0 +1,5 @@
+-- Resized variants generated on upload, stored next to the original in the photos bucket
+alter table public.photos
+  add column small_path text,
+  add column medium_path text,
+  add column large_path text;
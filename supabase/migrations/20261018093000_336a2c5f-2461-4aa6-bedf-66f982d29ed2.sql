@@ -0,0 +1,63 @@
+-- Create photo_metadata table (EXIF captured on upload)
+create table public.photo_metadata (
+  photo_id uuid primary key references public.photos(id) on delete cascade,
+  taken_at timestamp with time zone,
+  camera_make text,
+  camera_model text,
+  lens_model text,
+  exposure_time double precision,
+  f_number double precision,
+  iso integer,
+  focal_length double precision,
+  width integer,
+  height integer,
+  orientation smallint,
+  latitude double precision,
+  longitude double precision,
+  altitude double precision,
+  created_at timestamp with time zone default now() not null
+);
+
+-- Enable RLS
+alter table public.photo_metadata enable row level security;
+
+-- Photo metadata policies
+create policy "Users can view metadata of own photos"
+  on public.photo_metadata for select
+  using (
+    exists (
+      select 1 from public.photos
+      where photos.id = photo_metadata.photo_id
+      and photos.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can insert metadata of own photos"
+  on public.photo_metadata for insert
+  with check (
+    exists (
+      select 1 from public.photos
+      where photos.id = photo_metadata.photo_id
+      and photos.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update metadata of own photos"
+  on public.photo_metadata for update
+  using (
+    exists (
+      select 1 from public.photos
+      where photos.id = photo_metadata.photo_id
+      and photos.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete metadata of own photos"
+  on public.photo_metadata for delete
+  using (
+    exists (
+      select 1 from public.photos
+      where photos.id = photo_metadata.photo_id
+      and photos.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,18 @@
+-- Capture date used to order the library (EXIF date, else file date, else upload time)
+alter table public.photos
+  add column taken_at timestamp with time zone;
+
+update public.photos
+set taken_at = coalesce(photo_metadata.taken_at, photos.created_at)
+from public.photo_metadata
+where photo_metadata.photo_id = photos.id;
+
+update public.photos
+set taken_at = created_at
+where taken_at is null;
+
+alter table public.photos
+  alter column taken_at set default now(),
+  alter column taken_at set not null;
+
+create index photos_user_id_taken_at_idx on public.photos (user_id, taken_at desc);
@@ -0,0 +1,158 @@
+-- Soft delete: trashed photos and albums keep their rows for 30 days
+alter table public.photos
+  add column deleted_at timestamp with time zone;
+
+alter table public.albums
+  add column deleted_at timestamp with time zone;
+
+create index photos_trash_idx on public.photos (user_id, deleted_at) where deleted_at is not null;
+create index albums_trash_idx on public.albums (user_id, deleted_at) where deleted_at is not null;
+
+-- Trashed rows are hidden from every normal query
+drop policy "Users can view own photos" on public.photos;
+create policy "Users can view own photos"
+  on public.photos for select
+  using (auth.uid() = user_id and deleted_at is null);
+
+drop policy "Users can view own albums" on public.albums;
+create policy "Users can view own albums"
+  on public.albums for select
+  using (auth.uid() = user_id and deleted_at is null);
+
+-- Trash operations go through these functions, since the select policies
+-- above no longer expose trashed rows to the owner.
+create or replace function public.trash_photos(photo_ids uuid[])
+returns void
+language sql
+security definer set search_path = public
+as $$
+  update public.photos
+  set deleted_at = now()
+  where id = any(photo_ids)
+    and user_id = auth.uid()
+    and deleted_at is null;
+$$;
+
+create or replace function public.trash_albums(album_ids uuid[])
+returns void
+language sql
+security definer set search_path = public
+as $$
+  update public.albums
+  set deleted_at = now()
+  where id = any(album_ids)
+    and user_id = auth.uid()
+    and deleted_at is null;
+$$;
+
+create or replace function public.restore_photos(photo_ids uuid[])
+returns void
+language sql
+security definer set search_path = public
+as $$
+  update public.photos
+  set deleted_at = null
+  where id = any(photo_ids)
+    and user_id = auth.uid();
+$$;
+
+create or replace function public.restore_albums(album_ids uuid[])
+returns void
+language sql
+security definer set search_path = public
+as $$
+  update public.albums
+  set deleted_at = null
+  where id = any(album_ids)
+    and user_id = auth.uid();
+$$;
+
+create or replace function public.list_trashed_photos()
+returns setof public.photos
+language sql
+stable
+security definer set search_path = public
+as $$
+  select * from public.photos
+  where user_id = auth.uid()
+    and deleted_at is not null
+  order by deleted_at desc;
+$$;
+
+create or replace function public.list_trashed_albums()
+returns setof public.albums
+language sql
+stable
+security definer set search_path = public
+as $$
+  select * from public.albums
+  where user_id = auth.uid()
+    and deleted_at is not null
+  order by deleted_at desc;
+$$;
+
+-- Returns the deleted rows so the client can remove their storage objects
+create or replace function public.delete_photos_permanently(photo_ids uuid[])
+returns setof public.photos
+language sql
+security definer set search_path = public
+as $$
+  delete from public.photos
+  where id = any(photo_ids)
+    and user_id = auth.uid()
+    and deleted_at is not null
+  returning *;
+$$;
+
+create or replace function public.delete_albums_permanently(album_ids uuid[])
+returns void
+language sql
+security definer set search_path = public
+as $$
+  delete from public.albums
+  where id = any(album_ids)
+    and user_id = auth.uid()
+    and deleted_at is not null;
+$$;
+
+-- Purge everything that has been in the trash for more than 30 days
+create or replace function public.purge_trash()
+returns void
+language plpgsql
+security definer set search_path = public, storage
+as $$
+begin
+  -- Allow deleting storage metadata directly; the storage service then
+  -- treats the objects as gone.
+  perform set_config('storage.allow_delete_query', 'true', true);
+
+  delete from storage.objects
+  where bucket_id = 'photos'
+    and name in (
+      select path
+      from public.photos,
+        unnest(array[
+          split_part(photos.url, '/object/public/photos/', 2),
+          photos.small_path,
+          photos.medium_path,
+          photos.large_path
+        ]) as path
+      where photos.deleted_at < now() - interval '30 days'
+        and path is not null
+        and path <> ''
+    );
+
+  delete from public.photos
+  where deleted_at < now() - interval '30 days';
+
+  delete from public.albums
+  where deleted_at < now() - interval '30 days';
+end;
+$$;
+
+revoke execute on function public.purge_trash() from public, anon, authenticated;
+
+-- Run the purge daily
+create extension if not exists pg_cron;
+
+select cron.schedule('purge-trash', '0 3 * * *', 'select public.purge_trash()');
@@ -0,0 +1,50 @@
+-- Album covers: a single chosen photo or a 2x2 mosaic of the newest photos
+alter table public.albums
+  add column cover_style text not null default 'single'
+  check (cover_style in ('single', 'mosaic'));
+
+-- A cover must be one of the album's own photos
+create or replace function public.check_album_cover()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.cover_photo_id is not null and not exists (
+    select 1 from public.album_photos
+    where album_id = new.id
+    and photo_id = new.cover_photo_id
+  ) then
+    raise exception 'Cover photo must belong to the album';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger check_album_cover
+  before insert or update of cover_photo_id on public.albums
+  for each row execute procedure public.check_album_cover();
+
+-- When the cover leaves the album, the most recently added photo takes over
+create or replace function public.reassign_album_cover()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  update public.albums
+  set cover_photo_id = (
+    select photo_id from public.album_photos
+    where album_id = old.album_id
+    order by added_at desc
+    limit 1
+  )
+  where id = old.album_id
+  and cover_photo_id = old.photo_id;
+  return old;
+end;
+$$;
+
+create trigger on_album_photo_removed
+  after delete on public.album_photos
+  for each row execute procedure public.reassign_album_cover();
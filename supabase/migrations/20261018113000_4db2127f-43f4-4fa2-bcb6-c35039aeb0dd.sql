@@ -0,0 +1,68 @@
+-- Manual ordering of photos inside an album
+alter table public.album_photos
+  add column position integer;
+
+update public.album_photos ap
+set position = ordered.position
+from (
+  select album_id, photo_id, row_number() over (partition by album_id order by added_at, photo_id) as position
+  from public.album_photos
+) ordered
+where ap.album_id = ordered.album_id
+and ap.photo_id = ordered.photo_id;
+
+alter table public.album_photos
+  alter column position set not null;
+
+create index album_photos_position_idx on public.album_photos (album_id, position);
+
+-- New photos go to the end of the album
+create or replace function public.set_album_photo_position()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.position is null then
+    select coalesce(max(position), 0) + 1 into new.position
+    from public.album_photos
+    where album_id = new.album_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger set_album_photo_position
+  before insert on public.album_photos
+  for each row execute procedure public.set_album_photo_position();
+
+-- Per-album sort mode
+alter table public.albums
+  add column sort_mode text not null default 'manual'
+  check (sort_mode in ('manual', 'taken', 'added', 'title'));
+
+-- Rewrites the whole order at once; photos left out keep their relative
+-- order after the ones given.
+create or replace function public.reorder_album_photos(target_album_id uuid, photo_ids uuid[])
+returns void
+language sql
+security definer set search_path = public
+as $$
+  update public.album_photos ap
+  set position = ordered.position
+  from (
+    select ap2.photo_id,
+      row_number() over (
+        order by array_position(photo_ids, ap2.photo_id) nulls last, ap2.position
+      ) as position
+    from public.album_photos ap2
+    where ap2.album_id = target_album_id
+  ) ordered
+  where ap.album_id = target_album_id
+  and ap.photo_id = ordered.photo_id
+  and exists (
+    select 1 from public.albums
+    where albums.id = target_album_id
+    and albums.user_id = auth.uid()
+  );
+$$;
@@ -0,0 +1,150 @@
+-- Public share links for albums
+create extension if not exists pgcrypto with schema extensions;
+
+create table public.album_shares (
+  id uuid primary key default gen_random_uuid(),
+  album_id uuid references public.albums(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  token text not null unique default encode(extensions.gen_random_bytes(24), 'hex'),
+  password_hash text,
+  has_password boolean generated always as (password_hash is not null) stored,
+  expires_at timestamp with time zone,
+  created_at timestamp with time zone default now() not null
+);
+
+create index album_shares_album_id_idx on public.album_shares (album_id);
+
+-- Enable RLS
+alter table public.album_shares enable row level security;
+
+-- The password hash never leaves the database
+revoke select on public.album_shares from anon, authenticated;
+grant select (id, album_id, user_id, token, has_password, expires_at, created_at)
+  on public.album_shares to authenticated;
+
+-- Album shares policies
+create policy "Users can view own album shares"
+  on public.album_shares for select
+  using (auth.uid() = user_id);
+
+create policy "Users can delete own album shares"
+  on public.album_shares for delete
+  using (auth.uid() = user_id);
+
+-- Links are created and rotated here so passwords are hashed server-side
+create or replace function public.create_album_share(
+  target_album_id uuid,
+  share_password text default null,
+  share_expires_at timestamp with time zone default null
+)
+returns uuid
+language plpgsql
+security definer set search_path = public, extensions
+as $$
+declare
+  share_id uuid;
+begin
+  if not exists (
+    select 1 from public.albums
+    where id = target_album_id
+    and user_id = auth.uid()
+    and deleted_at is null
+  ) then
+    raise exception 'Album not found';
+  end if;
+
+  insert into public.album_shares (album_id, user_id, password_hash, expires_at)
+  values (
+    target_album_id,
+    auth.uid(),
+    case when share_password is not null then crypt(share_password, gen_salt('bf')) end,
+    share_expires_at
+  )
+  returning id into share_id;
+
+  return share_id;
+end;
+$$;
+
+create or replace function public.regenerate_album_share_token(share_id uuid)
+returns void
+language sql
+security definer set search_path = public, extensions
+as $$
+  update public.album_shares
+  set token = encode(gen_random_bytes(24), 'hex')
+  where id = share_id
+    and user_id = auth.uid();
+$$;
+
+-- Read-only view of a shared album, callable without signing in. Failures
+-- raise a stable code the client maps to a message.
+create or replace function public.get_shared_album(share_token text, share_password text default null)
+returns json
+language plpgsql
+stable
+security definer set search_path = public, extensions
+as $$
+declare
+  share public.album_shares;
+  album public.albums;
+begin
+  select * into share
+  from public.album_shares
+  where token = share_token;
+
+  if share.id is null then
+    raise exception 'share_not_found';
+  end if;
+
+  if share.expires_at is not null and share.expires_at < now() then
+    raise exception 'share_expired';
+  end if;
+
+  if share.password_hash is not null then
+    if share_password is null then
+      raise exception 'share_password_required';
+    end if;
+    if crypt(share_password, share.password_hash) <> share.password_hash then
+      raise exception 'share_password_invalid';
+    end if;
+  end if;
+
+  select * into album
+  from public.albums
+  where id = share.album_id
+  and deleted_at is null;
+
+  if album.id is null then
+    raise exception 'share_not_found';
+  end if;
+
+  return json_build_object(
+    'album', json_build_object(
+      'name', album.name,
+      'description', album.description,
+      'sort_mode', album.sort_mode
+    ),
+    'photos', coalesce((
+      select json_agg(json_build_object(
+        'id', p.id,
+        'url', p.url,
+        'title', p.title,
+        'description', p.description,
+        'taken_at', p.taken_at,
+        'small_path', p.small_path,
+        'medium_path', p.medium_path,
+        'large_path', p.large_path,
+        'position', ap.position,
+        'added_at', ap.added_at
+      ) order by ap.position)
+      from public.album_photos ap
+      join public.photos p on p.id = ap.photo_id
+      where ap.album_id = album.id
+      and p.deleted_at is null
+    ), '[]'::json)
+  );
+end;
+$$;
+
+grant execute on function public.get_shared_album(text, text) to anon, authenticated;
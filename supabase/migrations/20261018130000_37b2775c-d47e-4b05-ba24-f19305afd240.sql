@@ -0,0 +1,231 @@
+-- Album collaborators
+create table public.album_members (
+  album_id uuid references public.albums(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  role text not null check (role in ('viewer', 'contributor', 'editor')),
+  invited_by uuid references auth.users(id) on delete set null,
+  created_at timestamp with time zone default now() not null,
+  primary key (album_id, user_id)
+);
+
+create index album_members_user_id_idx on public.album_members (user_id);
+
+-- Enable RLS
+alter table public.album_members enable row level security;
+
+-- The caller's role in an album: 'owner', a member role, or null. Security
+-- definer so policies can use it without recursing into each other.
+create or replace function public.album_role(target_album_id uuid)
+returns text
+language sql
+stable
+security definer set search_path = public
+as $$
+  select case
+    when albums.user_id = auth.uid() then 'owner'
+    else (
+      select role from public.album_members
+      where album_members.album_id = albums.id
+      and album_members.user_id = auth.uid()
+    )
+  end
+  from public.albums
+  where albums.id = target_album_id
+  and albums.deleted_at is null;
+$$;
+
+create or replace function public.can_view_album(target_album_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select public.album_role(target_album_id) is not null;
+$$;
+
+create or replace function public.can_add_to_album(target_album_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select public.album_role(target_album_id) in ('owner', 'editor', 'contributor');
+$$;
+
+create or replace function public.can_edit_album(target_album_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select public.album_role(target_album_id) in ('owner', 'editor');
+$$;
+
+-- Album members policies
+create policy "Users can view members of own albums"
+  on public.album_members for select
+  using (
+    user_id = auth.uid() or
+    exists (
+      select 1 from public.albums
+      where albums.id = album_members.album_id
+      and albums.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can update members of own albums"
+  on public.album_members for update
+  using (
+    exists (
+      select 1 from public.albums
+      where albums.id = album_members.album_id
+      and albums.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can remove members of own albums"
+  on public.album_members for delete
+  using (
+    exists (
+      select 1 from public.albums
+      where albums.id = album_members.album_id
+      and albums.user_id = auth.uid()
+    )
+  );
+
+-- Albums: members can see the albums they belong to
+drop policy "Users can view own albums" on public.albums;
+create policy "Users can view own and shared albums"
+  on public.albums for select
+  using (
+    deleted_at is null and
+    (auth.uid() = user_id or public.can_view_album(id))
+  );
+
+-- Album photos: visible to members, added by contributors, removed by editors
+drop policy "Users can view photos in own albums" on public.album_photos;
+create policy "Users can view photos in shared albums"
+  on public.album_photos for select
+  using (public.can_view_album(album_id));
+
+drop policy "Users can add photos to own albums" on public.album_photos;
+create policy "Users can add photos to shared albums"
+  on public.album_photos for insert
+  with check (
+    public.can_add_to_album(album_id) and
+    exists (
+      select 1 from public.photos
+      where photos.id = album_photos.photo_id
+      and (photos.user_id = auth.uid() or public.can_edit_album(album_photos.album_id))
+    )
+  );
+
+drop policy "Users can remove photos from own albums" on public.album_photos;
+create policy "Users can remove photos from shared albums"
+  on public.album_photos for delete
+  using (public.can_edit_album(album_id));
+
+-- Photos: readable by members of any album they are in
+drop policy "Users can view own photos" on public.photos;
+create policy "Users can view own and shared photos"
+  on public.photos for select
+  using (
+    deleted_at is null and (
+      auth.uid() = user_id or
+      exists (
+        select 1 from public.album_photos
+        where album_photos.photo_id = photos.id
+        and public.can_view_album(album_photos.album_id)
+      )
+    )
+  );
+
+drop policy "Users can view metadata of own photos" on public.photo_metadata;
+create policy "Users can view metadata of visible photos"
+  on public.photo_metadata for select
+  using (
+    exists (
+      select 1 from public.photos
+      where photos.id = photo_metadata.photo_id
+    )
+  );
+
+-- Editors can reorder too
+create or replace function public.reorder_album_photos(target_album_id uuid, photo_ids uuid[])
+returns void
+language sql
+security definer set search_path = public
+as $$
+  update public.album_photos ap
+  set position = ordered.position
+  from (
+    select ap2.photo_id,
+      row_number() over (
+        order by array_position(photo_ids, ap2.photo_id) nulls last, ap2.position
+      ) as position
+    from public.album_photos ap2
+    where ap2.album_id = target_album_id
+  ) ordered
+  where ap.album_id = target_album_id
+  and ap.photo_id = ordered.photo_id
+  and public.can_edit_album(target_album_id);
+$$;
+
+-- Invites a registered user by the email they signed up with
+create or replace function public.invite_album_member(
+  target_album_id uuid,
+  member_email text,
+  member_role text
+)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  member_id uuid;
+begin
+  if not exists (
+    select 1 from public.albums
+    where id = target_album_id
+    and user_id = auth.uid()
+  ) then
+    raise exception 'album_not_found';
+  end if;
+
+  select profiles.user_id into member_id
+  from public.profiles
+  join auth.users on users.id = profiles.user_id
+  where lower(users.email) = lower(trim(member_email));
+
+  if member_id is null then
+    raise exception 'user_not_found';
+  end if;
+
+  if member_id = auth.uid() then
+    raise exception 'cannot_invite_self';
+  end if;
+
+  insert into public.album_members (album_id, user_id, role, invited_by)
+  values (target_album_id, member_id, member_role, auth.uid())
+  on conflict (album_id, user_id) do update set role = excluded.role;
+end;
+$$;
+
+create or replace function public.list_album_members(target_album_id uuid)
+returns table (
+  user_id uuid,
+  role text,
+  display_name text,
+  avatar_url text,
+  email text
+)
+language sql
+stable
+security definer set search_path = public
+as $$
+  select album_members.user_id, album_members.role, profiles.display_name, profiles.avatar_url, users.email::text
+  from public.album_members
+  join public.albums on albums.id = album_members.album_id
+  left join public.profiles on profiles.user_id = album_members.user_id
+  join auth.users on users.id = album_members.user_id
+  where album_members.album_id = target_album_id
+  and albums.user_id = auth.uid()
+  order by album_members.created_at;
+$$;
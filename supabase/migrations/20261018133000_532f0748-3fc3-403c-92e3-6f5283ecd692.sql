@@ -0,0 +1,213 @@
+-- Photos are private: rows keep the storage path and clients sign URLs
+alter table public.photos
+  rename column url to path;
+
+update public.photos
+set path = split_part(path, '/object/public/photos/', 2)
+where path like '%/object/public/photos/%';
+
+create index photos_path_idx on public.photos (path);
+create index photos_small_path_idx on public.photos (small_path);
+create index photos_medium_path_idx on public.photos (medium_path);
+create index photos_large_path_idx on public.photos (large_path);
+
+update storage.buckets
+set public = false
+where id = 'photos';
+
+-- Objects can be read (and signed) by their owner and by anyone who can see
+-- the photo row, which covers album members.
+drop policy "Anyone can view photos" on storage.objects;
+create policy "Users can view own and shared photos"
+  on storage.objects for select
+  using (
+    bucket_id = 'photos' and (
+      auth.uid()::text = (storage.foldername(name))[1] or
+      exists (
+        select 1 from public.photos
+        where objects.name in (photos.path, photos.small_path, photos.medium_path, photos.large_path)
+      )
+    )
+  );
+
+-- Share link visitors are anonymous, so the link travels in request headers
+-- (x-share-token, x-share-password) when they sign URLs.
+create or replace function public.can_view_shared_object(object_name text)
+returns boolean
+language plpgsql
+stable
+security definer set search_path = public, extensions
+as $$
+declare
+  headers json := nullif(current_setting('request.headers', true), '')::json;
+  share_token text := headers ->> 'x-share-token';
+  share_password text := headers ->> 'x-share-password';
+begin
+  if share_token is null then
+    return false;
+  end if;
+
+  return exists (
+    select 1
+    from public.album_shares
+    join public.albums on albums.id = album_shares.album_id
+    join public.album_photos on album_photos.album_id = album_shares.album_id
+    join public.photos on photos.id = album_photos.photo_id
+    where album_shares.token = share_token
+    and (album_shares.expires_at is null or album_shares.expires_at > now())
+    and (
+      album_shares.password_hash is null or
+      crypt(coalesce(share_password, ''), album_shares.password_hash) = album_shares.password_hash
+    )
+    and albums.deleted_at is null
+    and photos.deleted_at is null
+    and object_name in (photos.path, photos.small_path, photos.medium_path, photos.large_path)
+  );
+end;
+$$;
+
+create policy "Share link visitors can view shared photos"
+  on storage.objects for select
+  using (bucket_id = 'photos' and public.can_view_shared_object(name));
+
+-- Avatars stay public in a bucket of their own
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true);
+
+create policy "Anyone can view avatars"
+  on storage.objects for select
+  using (bucket_id = 'avatars');
+
+create policy "Users can upload own avatar"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'avatars' and
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+create policy "Users can update own avatar"
+  on storage.objects for update
+  using (
+    bucket_id = 'avatars' and
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+create policy "Users can delete own avatar"
+  on storage.objects for delete
+  using (
+    bucket_id = 'avatars' and
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+-- Old avatars lived in the photos bucket and are no longer reachable by URL;
+-- users upload them again.
+update public.profiles
+set avatar_url = null
+where avatar_url like '%/object/public/photos/%';
+
+-- Functions that read the old url column
+create or replace function public.purge_trash()
+returns void
+language plpgsql
+security definer set search_path = public, storage
+as $$
+begin
+  -- Allow deleting storage metadata directly; the storage service then
+  -- treats the objects as gone.
+  perform set_config('storage.allow_delete_query', 'true', true);
+
+  delete from storage.objects
+  where bucket_id = 'photos'
+    and name in (
+      select object_name
+      from public.photos,
+        unnest(array[
+          photos.path,
+          photos.small_path,
+          photos.medium_path,
+          photos.large_path
+        ]) as object_name
+      where photos.deleted_at < now() - interval '30 days'
+        and object_name is not null
+    );
+
+  delete from public.photos
+  where deleted_at < now() - interval '30 days';
+
+  delete from public.albums
+  where deleted_at < now() - interval '30 days';
+end;
+$$;
+
+revoke execute on function public.purge_trash() from public, anon, authenticated;
+
+-- Shared albums expose storage paths; visitors sign them with the link
+create or replace function public.get_shared_album(share_token text, share_password text default null)
+returns json
+language plpgsql
+stable
+security definer set search_path = public, extensions
+as $$
+declare
+  share public.album_shares;
+  album public.albums;
+begin
+  select * into share
+  from public.album_shares
+  where token = share_token;
+
+  if share.id is null then
+    raise exception 'share_not_found';
+  end if;
+
+  if share.expires_at is not null and share.expires_at < now() then
+    raise exception 'share_expired';
+  end if;
+
+  if share.password_hash is not null then
+    if share_password is null then
+      raise exception 'share_password_required';
+    end if;
+    if crypt(share_password, share.password_hash) <> share.password_hash then
+      raise exception 'share_password_invalid';
+    end if;
+  end if;
+
+  select * into album
+  from public.albums
+  where id = share.album_id
+  and deleted_at is null;
+
+  if album.id is null then
+    raise exception 'share_not_found';
+  end if;
+
+  return json_build_object(
+    'album', json_build_object(
+      'name', album.name,
+      'description', album.description,
+      'sort_mode', album.sort_mode
+    ),
+    'photos', coalesce((
+      select json_agg(json_build_object(
+        'id', p.id,
+        'path', p.path,
+        'title', p.title,
+        'description', p.description,
+        'taken_at', p.taken_at,
+        'small_path', p.small_path,
+        'medium_path', p.medium_path,
+        'large_path', p.large_path,
+        'position', ap.position,
+        'added_at', ap.added_at
+      ) order by ap.position)
+      from public.album_photos ap
+      join public.photos p on p.id = ap.photo_id
+      where ap.album_id = album.id
+      and p.deleted_at is null
+    ), '[]'::json)
+  );
+end;
+$$;
+
+grant execute on function public.get_shared_album(text, text) to anon, authenticated;
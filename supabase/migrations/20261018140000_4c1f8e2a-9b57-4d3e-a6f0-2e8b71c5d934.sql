@@ -0,0 +1,11 @@
+-- Uploads are fingerprinted on the client: a SHA-256 of the original file for
+-- exact duplicates and a difference hash of the small variant for near ones.
+alter table public.photos
+  add column content_hash text,
+  add column perceptual_hash text;
+
+-- Trashed photos keep their hash, so restoring one never collides with a
+-- re-upload; the client reports the conflict instead.
+create unique index photos_user_content_hash_key
+  on public.photos (user_id, content_hash)
+  where content_hash is not null;
@@ -0,0 +1,143 @@
+-- File details recorded at upload. Sizes are those of the original; the
+-- resized variants are small and are not counted against the quota.
+alter table public.photos
+  add column size_bytes bigint,
+  add column mime_type text,
+  add column width integer,
+  add column height integer;
+
+update public.photos
+set size_bytes = (objects.metadata->>'size')::bigint,
+    mime_type = objects.metadata->>'mimetype'
+from storage.objects
+where objects.bucket_id = 'photos'
+and objects.name = photos.path;
+
+update public.photos
+set width = photo_metadata.width,
+    height = photo_metadata.height
+from public.photo_metadata
+where photo_metadata.photo_id = photos.id;
+
+-- Storage quota per account (5 GB by default)
+alter table public.profiles
+  add column storage_quota_bytes bigint not null default 5368709120;
+
+-- Users edit their own profile, but not their quota
+revoke update on public.profiles from anon, authenticated;
+grant update (display_name, avatar_url) on public.profiles to authenticated;
+
+-- The stored object is the source of truth for the size, so a client cannot
+-- under-report it. Trashed photos still count until they are purged.
+create or replace function public.enforce_storage_quota()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  quota bigint;
+  used bigint;
+begin
+  new.size_bytes := coalesce(
+    (
+      select (metadata->>'size')::bigint from storage.objects
+      where bucket_id = 'photos'
+      and name = new.path
+    ),
+    new.size_bytes
+  );
+
+  -- Serialize a user's parallel uploads so they cannot overshoot together
+  perform pg_advisory_xact_lock(hashtext(new.user_id::text));
+
+  select storage_quota_bytes into quota
+  from public.profiles
+  where user_id = new.user_id;
+
+  select coalesce(sum(size_bytes), 0) into used
+  from public.photos
+  where user_id = new.user_id
+  and id <> new.id;
+
+  if quota is not null and used + coalesce(new.size_bytes, 0) > quota then
+    raise exception 'storage_quota_exceeded';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger enforce_storage_quota
+  before insert or update of path, size_bytes on public.photos
+  for each row execute function public.enforce_storage_quota();
+
+-- Free space checked by the client before each upload
+create or replace function public.storage_bytes_available()
+returns bigint
+language sql
+stable
+security definer set search_path = public
+as $$
+  select greatest(
+    profiles.storage_quota_bytes - (
+      select coalesce(sum(size_bytes), 0) from public.photos
+      where user_id = auth.uid()
+    ),
+    0
+  )::bigint
+  from public.profiles
+  where profiles.user_id = auth.uid();
+$$;
+
+-- Usage summary for the profile page
+create or replace function public.get_storage_usage()
+returns json
+language sql
+stable
+security definer set search_path = public
+as $$
+  select json_build_object(
+    'used_bytes', (
+      select coalesce(sum(size_bytes), 0) from public.photos
+      where user_id = auth.uid()
+    ),
+    'trash_bytes', (
+      select coalesce(sum(size_bytes), 0) from public.photos
+      where user_id = auth.uid()
+      and deleted_at is not null
+    ),
+    'quota_bytes', (
+      select storage_quota_bytes from public.profiles
+      where user_id = auth.uid()
+    ),
+    'photo_count', (
+      select count(*) from public.photos
+      where user_id = auth.uid()
+      and deleted_at is null
+    ),
+    'largest', coalesce((
+      select json_agg(largest)
+      from (
+        select id, title, path, small_path, medium_path, large_path, size_bytes, mime_type, width, height
+        from public.photos
+        where user_id = auth.uid()
+        and deleted_at is null
+        and size_bytes is not null
+        order by size_bytes desc
+        limit 5
+      ) largest
+    ), '[]'::json),
+    'by_month', coalesce((
+      select json_agg(months order by months.month)
+      from (
+        select
+          to_char(date_trunc('month', created_at), 'YYYY-MM') as month,
+          coalesce(sum(size_bytes), 0) as bytes,
+          count(*) as photos
+        from public.photos
+        where user_id = auth.uid()
+        group by 1
+      ) months
+    ), '[]'::json)
+  );
+$$;
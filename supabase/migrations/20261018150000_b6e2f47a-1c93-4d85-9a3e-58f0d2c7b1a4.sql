@@ -0,0 +1,106 @@
+-- Personal tags, attached to photos through photo_tags
+create table public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null check (char_length(btrim(name)) between 1 and 50),
+  created_at timestamp with time zone default now() not null
+);
+
+-- Names are unique per user regardless of case
+create unique index tags_user_id_name_key on public.tags (user_id, lower(name));
+
+create table public.photo_tags (
+  photo_id uuid references public.photos(id) on delete cascade not null,
+  tag_id uuid references public.tags(id) on delete cascade not null,
+  created_at timestamp with time zone default now() not null,
+  primary key (photo_id, tag_id)
+);
+
+create index photo_tags_tag_id_idx on public.photo_tags (tag_id);
+
+-- Enable RLS
+alter table public.tags enable row level security;
+alter table public.photo_tags enable row level security;
+
+-- Tags policies
+create policy "Users can view own tags"
+  on public.tags for select
+  using (auth.uid() = user_id);
+
+create policy "Users can create own tags"
+  on public.tags for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update own tags"
+  on public.tags for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete own tags"
+  on public.tags for delete
+  using (auth.uid() = user_id);
+
+-- Photo tags policies: both the photo and the tag must belong to the user
+create policy "Users can view tags of own photos"
+  on public.photo_tags for select
+  using (
+    exists (
+      select 1 from public.photos
+      where photos.id = photo_tags.photo_id
+      and photos.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can tag own photos"
+  on public.photo_tags for insert
+  with check (
+    exists (
+      select 1 from public.photos
+      where photos.id = photo_tags.photo_id
+      and photos.user_id = auth.uid()
+    ) and
+    exists (
+      select 1 from public.tags
+      where tags.id = photo_tags.tag_id
+      and tags.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can untag own photos"
+  on public.photo_tags for delete
+  using (
+    exists (
+      select 1 from public.photos
+      where photos.id = photo_tags.photo_id
+      and photos.user_id = auth.uid()
+    )
+  );
+
+-- Returns the user's tags with the given names, creating the missing ones
+create or replace function public.ensure_tags(tag_names text[])
+returns setof public.tags
+language plpgsql
+set search_path = public
+as $$
+begin
+  return query
+  with names as (
+    select distinct on (lower(name)) name
+    from (
+      select btrim(regexp_replace(raw_name, '\s+', ' ', 'g')) as name
+      from unnest(tag_names) as raw_name
+    ) normalized
+    where name <> ''
+  ),
+  created as (
+    insert into public.tags (user_id, name)
+    select auth.uid(), name from names
+    on conflict (user_id, lower(name)) do nothing
+    returning *
+  )
+  select * from created
+  union all
+  select tags.* from public.tags
+  join names on lower(tags.name) = lower(names.name)
+  where tags.user_id = auth.uid();
+end;
+$$;
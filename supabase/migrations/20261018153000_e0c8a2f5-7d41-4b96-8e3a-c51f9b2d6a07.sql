@@ -0,0 +1,185 @@
+-- Full-text search over photos (title, tags, description) and albums (name,
+-- description). Text is indexed with both the Portuguese and English configs,
+-- without accents, so "sao paulo" finds "São Paulo".
+create extension if not exists unaccent with schema extensions;
+
+-- unaccent() is only stable; pinning the dictionary makes it safe to index
+create or replace function public.search_text(value text)
+returns text
+language sql
+immutable
+parallel safe
+set search_path = public, extensions
+as $$
+  select extensions.unaccent('extensions.unaccent'::regdictionary, coalesce(value, ''));
+$$;
+
+create or replace function public.search_document(value text, weight "char")
+returns tsvector
+language sql
+immutable
+parallel safe
+as $$
+  select setweight(to_tsvector('portuguese', public.search_text(value)), weight)
+    || setweight(to_tsvector('english', public.search_text(value)), weight);
+$$;
+
+-- Every word of the query must match, each as a prefix, under either config
+create or replace function public.search_tsquery(search_query text)
+returns tsquery
+language sql
+immutable
+parallel safe
+as $$
+  with words as (
+    select string_agg(quote_literal(word) || ':*', ' & ') as terms
+    from regexp_split_to_table(lower(public.search_text(search_query)), '[^[:alnum:]]+') as word
+    where word <> ''
+  )
+  select case
+    when terms is null then ''::tsquery
+    else to_tsquery('portuguese', terms) || to_tsquery('english', terms)
+  end
+  from words;
+$$;
+
+alter table public.photos add column search_vector tsvector;
+alter table public.albums add column search_vector tsvector;
+
+create index photos_search_vector_idx on public.photos using gin (search_vector);
+create index albums_search_vector_idx on public.albums using gin (search_vector);
+
+create or replace function public.photo_search_vector(target_photo_id uuid, title text, description text)
+returns tsvector
+language sql
+stable
+security definer set search_path = public
+as $$
+  select public.search_document(title, 'A')
+    || public.search_document((
+      select string_agg(tags.name, ' ')
+      from public.photo_tags
+      join public.tags on tags.id = photo_tags.tag_id
+      where photo_tags.photo_id = target_photo_id
+    ), 'B')
+    || public.search_document(description, 'C');
+$$;
+
+create or replace function public.set_photo_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := public.photo_search_vector(new.id, new.title, new.description);
+  return new;
+end;
+$$;
+
+create trigger set_photo_search_vector
+  before insert or update of title, description on public.photos
+  for each row execute function public.set_photo_search_vector();
+
+-- Tag changes reach the photo through these two triggers
+create or replace function public.refresh_photo_search_vector()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  update public.photos
+  set search_vector = public.photo_search_vector(photos.id, photos.title, photos.description)
+  where photos.id = coalesce(new.photo_id, old.photo_id);
+  return null;
+end;
+$$;
+
+create trigger refresh_photo_search_vector
+  after insert or delete on public.photo_tags
+  for each row execute function public.refresh_photo_search_vector();
+
+create or replace function public.refresh_tagged_photos_search_vector()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  update public.photos
+  set search_vector = public.photo_search_vector(photos.id, photos.title, photos.description)
+  where photos.id in (select photo_id from public.photo_tags where tag_id = new.id);
+  return null;
+end;
+$$;
+
+create trigger refresh_tagged_photos_search_vector
+  after update of name on public.tags
+  for each row execute function public.refresh_tagged_photos_search_vector();
+
+create or replace function public.set_album_search_vector()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.search_vector := public.search_document(new.name, 'A') || public.search_document(new.description, 'C');
+  return new;
+end;
+$$;
+
+create trigger set_album_search_vector
+  before insert or update of name, description on public.albums
+  for each row execute function public.set_album_search_vector();
+
+update public.photos
+set search_vector = public.photo_search_vector(id, title, description);
+
+update public.albums
+set search_vector = public.search_document(name, 'A') || public.search_document(description, 'C');
+
+-- Runs with the caller's rights: photos come from the user's own library
+-- (the viewer pages browse it), albums include those shared with them
+create or replace function public.search_library(search_query text, result_limit integer default 20)
+returns json
+language sql
+stable
+set search_path = public
+as $$
+  with query as (
+    select public.search_tsquery(search_query) as tsquery
+  )
+  select json_build_object(
+    'photos', coalesce((
+      select json_agg(found)
+      from (
+        select
+          photos.id,
+          photos.title,
+          photos.description,
+          photos.path,
+          photos.small_path,
+          photos.medium_path,
+          photos.large_path,
+          coalesce((
+            select array_agg(tags.name order by tags.name)
+            from public.photo_tags
+            join public.tags on tags.id = photo_tags.tag_id
+            where photo_tags.photo_id = photos.id
+          ), '{}') as tags
+        from public.photos, query
+        where photos.search_vector @@ query.tsquery
+        and photos.user_id = auth.uid()
+        order by ts_rank(photos.search_vector, query.tsquery) desc, photos.taken_at desc
+        limit result_limit
+      ) found
+    ), '[]'::json),
+    'albums', coalesce((
+      select json_agg(found)
+      from (
+        select albums.id, albums.name, albums.description, albums.user_id
+        from public.albums, query
+        where albums.search_vector @@ query.tsquery
+        and albums.deleted_at is null
+        order by ts_rank(albums.search_vector, query.tsquery) desc, albums.created_at desc
+        limit result_limit
+      ) found
+    ), '[]'::json)
+  );
+$$;
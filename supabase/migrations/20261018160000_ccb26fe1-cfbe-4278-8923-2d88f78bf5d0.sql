@@ -0,0 +1,85 @@
+-- Keyset pagination: pages continue after the (sort value, id) of the last
+-- row seen, so the id breaks ties between photos taken at the same instant.
+drop index if exists public.photos_user_id_taken_at_idx;
+create index photos_user_id_taken_at_idx on public.photos (user_id, taken_at desc, id desc);
+create index photos_user_id_created_at_idx on public.photos (user_id, created_at desc, id desc);
+create index album_photos_photo_id_idx on public.album_photos (photo_id);
+
+-- One page of the caller's photos, filtered and sorted like the library.
+-- `after_value` is the sort column of the last photo of the previous page
+-- (a timestamp, or the title when sorting by title) and `after_id` its id.
+-- Without `page_size` every matching photo is returned, which is what a
+-- count request wants.
+create or replace function public.list_photos(
+  sort_by text default 'taken',
+  after_value text default null,
+  after_id uuid default null,
+  page_size integer default null,
+  taken_from timestamptz default null,
+  taken_to timestamptz default null,
+  camera text default null,
+  orientation text default null,
+  mime text default null,
+  only_unfiled boolean default false,
+  only_untitled boolean default false,
+  tag_ids uuid[] default null,
+  match_all_tags boolean default true,
+  search_query text default null,
+  exclude_album_id uuid default null
+)
+returns setof public.photos
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  sort_column text := case sort_by when 'uploaded' then 'created_at' when 'title' then 'title' else 'taken_at' end;
+  after_condition text := 'true';
+begin
+  -- Titles sort ascending with untitled photos last; dates sort newest first.
+  if after_id is not null then
+    after_condition := case
+      when sort_column = 'title' and after_value is null then 'p.title is null and p.id > $2'
+      when sort_column = 'title' then '(p.title > $1 or (p.title = $1 and p.id > $2) or p.title is null)'
+      else format('(p.%I, p.id) < ($1::timestamptz, $2)', sort_column)
+    end;
+  end if;
+
+  return query execute format(
+    $query$
+      select p.*
+      from photos p
+      left join photo_metadata m on m.photo_id = p.id
+      where p.user_id = auth.uid()
+      and p.deleted_at is null
+      and %s
+      and ($4 is null or p.taken_at >= $4)
+      and ($5 is null or p.taken_at < $5)
+      and ($6 is null or m.camera_model = $6)
+      and ($7 is null or case
+        when p.width = p.height then 'square'
+        when p.width > p.height then 'landscape'
+        when p.width < p.height then 'portrait'
+      end = $7)
+      and ($8 is null or p.mime_type = $8)
+      and (not $9 or not exists (select 1 from album_photos ap where ap.photo_id = p.id))
+      and (not $10 or coalesce(btrim(p.title), '') = '')
+      and (coalesce(cardinality($11), 0) = 0 or (
+        select count(*) from photo_tags pt where pt.photo_id = p.id and pt.tag_id = any($11)
+      ) >= case when $12 then cardinality($11) else 1 end)
+      and ($13 is null or p.search_vector @@ search_tsquery($13))
+      and ($14 is null or not exists (
+        select 1 from album_photos ap where ap.album_id = $14 and ap.photo_id = p.id
+      ))
+      order by p.%I %s, p.id %s
+      limit $3
+    $query$,
+    after_condition,
+    sort_column,
+    case when sort_column = 'title' then 'asc nulls last' else 'desc' end,
+    case when sort_column = 'title' then 'asc' else 'desc' end
+  )
+  using after_value, after_id, page_size, taken_from, taken_to, camera, orientation, mime,
+    only_unfiled, only_untitled, tag_ids, match_all_tags, search_query, exclude_album_id;
+end;
+$$;
@@ -0,0 +1,54 @@
+-- Realtime: open tabs follow changes made on other devices. Row changes are
+-- broadcast from the database rather than read through postgres_changes,
+-- which checks the new row against the select policies and so never delivers
+-- a photo or album moving to the trash.
+--
+-- Topics are private: "user:<id>" carries the user's photos and albums,
+-- "album:<id>" carries an album and its photos to everyone who can view it.
+create or replace function public.broadcast_row_change()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  changed jsonb := to_jsonb(case when tg_op = 'DELETE' then old else new end);
+begin
+  if tg_table_name in ('photos', 'albums') then
+    perform realtime.broadcast_changes(
+      'user:' || (changed->>'user_id'), tg_op, tg_op, tg_table_name, tg_table_schema, new, old
+    );
+  end if;
+
+  if tg_table_name in ('albums', 'album_photos') then
+    perform realtime.broadcast_changes(
+      'album:' || coalesce(changed->>'album_id', changed->>'id'), tg_op, tg_op, tg_table_name, tg_table_schema, new, old
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger photos_broadcast_changes
+  after insert or update or delete on public.photos
+  for each row execute function public.broadcast_row_change();
+
+create trigger albums_broadcast_changes
+  after insert or update or delete on public.albums
+  for each row execute function public.broadcast_row_change();
+
+create trigger album_photos_broadcast_changes
+  after insert or update or delete on public.album_photos
+  for each row execute function public.broadcast_row_change();
+
+create policy "Users receive changes to their library and albums"
+  on realtime.messages for select
+  to authenticated
+  using (
+    realtime.messages.extension = 'broadcast' and (
+      realtime.topic() = 'user:' || auth.uid()::text or (
+        realtime.topic() like 'album:%'
+        and public.can_view_album(substring(realtime.topic() from 7)::uuid)
+      )
+    )
+  );
@@ -0,0 +1,197 @@
+-- Real pixel width of each resized variant, for srcset descriptors. The
+-- nominal size is the longest edge, which is the height of a portrait photo,
+-- and originals smaller than a variant are never scaled up.
+alter table public.photos
+  add column small_width integer,
+  add column medium_width integer,
+  add column large_width integer;
+
+-- Existing variants were scaled the same way, so their width follows from the
+-- recorded original size
+update public.photos
+set small_width = case when small_path is not null
+      then round(width * least(1, 320.0 / greatest(width, height))) end,
+    medium_width = case when medium_path is not null
+      then round(width * least(1, 960.0 / greatest(width, height))) end,
+    large_width = case when large_path is not null
+      then round(width * least(1, 1920.0 / greatest(width, height))) end
+where width is not null
+and height is not null;
+
+-- Functions that return photos as JSON carry the widths too
+create or replace function public.search_library(search_query text, result_limit integer default 20)
+returns json
+language sql
+stable
+set search_path = public
+as $$
+  with query as (
+    select public.search_tsquery(search_query) as tsquery
+  )
+  select json_build_object(
+    'photos', coalesce((
+      select json_agg(found)
+      from (
+        select
+          photos.id,
+          photos.title,
+          photos.description,
+          photos.path,
+          photos.small_path,
+          photos.medium_path,
+          photos.large_path,
+          photos.small_width,
+          photos.medium_width,
+          photos.large_width,
+          coalesce((
+            select array_agg(tags.name order by tags.name)
+            from public.photo_tags
+            join public.tags on tags.id = photo_tags.tag_id
+            where photo_tags.photo_id = photos.id
+          ), '{}') as tags
+        from public.photos, query
+        where photos.search_vector @@ query.tsquery
+        and photos.user_id = auth.uid()
+        order by ts_rank(photos.search_vector, query.tsquery) desc, photos.taken_at desc
+        limit result_limit
+      ) found
+    ), '[]'::json),
+    'albums', coalesce((
+      select json_agg(found)
+      from (
+        select albums.id, albums.name, albums.description, albums.user_id
+        from public.albums, query
+        where albums.search_vector @@ query.tsquery
+        and albums.deleted_at is null
+        order by ts_rank(albums.search_vector, query.tsquery) desc, albums.created_at desc
+        limit result_limit
+      ) found
+    ), '[]'::json)
+  );
+$$;
+
+create or replace function public.get_storage_usage()
+returns json
+language sql
+stable
+security definer set search_path = public
+as $$
+  select json_build_object(
+    'used_bytes', (
+      select coalesce(sum(size_bytes), 0) from public.photos
+      where user_id = auth.uid()
+    ),
+    'trash_bytes', (
+      select coalesce(sum(size_bytes), 0) from public.photos
+      where user_id = auth.uid()
+      and deleted_at is not null
+    ),
+    'quota_bytes', (
+      select storage_quota_bytes from public.profiles
+      where user_id = auth.uid()
+    ),
+    'photo_count', (
+      select count(*) from public.photos
+      where user_id = auth.uid()
+      and deleted_at is null
+    ),
+    'largest', coalesce((
+      select json_agg(largest)
+      from (
+        select id, title, path, small_path, medium_path, large_path, small_width, medium_width, large_width,
+          size_bytes, mime_type, width, height
+        from public.photos
+        where user_id = auth.uid()
+        and deleted_at is null
+        and size_bytes is not null
+        order by size_bytes desc
+        limit 5
+      ) largest
+    ), '[]'::json),
+    'by_month', coalesce((
+      select json_agg(months order by months.month)
+      from (
+        select
+          to_char(date_trunc('month', created_at), 'YYYY-MM') as month,
+          coalesce(sum(size_bytes), 0) as bytes,
+          count(*) as photos
+        from public.photos
+        where user_id = auth.uid()
+        group by 1
+      ) months
+    ), '[]'::json)
+  );
+$$;
+
+create or replace function public.get_shared_album(share_token text, share_password text default null)
+returns json
+language plpgsql
+stable
+security definer set search_path = public, extensions
+as $$
+declare
+  share public.album_shares;
+  album public.albums;
+begin
+  select * into share
+  from public.album_shares
+  where token = share_token;
+
+  if share.id is null then
+    raise exception 'share_not_found';
+  end if;
+
+  if share.expires_at is not null and share.expires_at < now() then
+    raise exception 'share_expired';
+  end if;
+
+  if share.password_hash is not null then
+    if share_password is null then
+      raise exception 'share_password_required';
+    end if;
+    if crypt(share_password, share.password_hash) <> share.password_hash then
+      raise exception 'share_password_invalid';
+    end if;
+  end if;
+
+  select * into album
+  from public.albums
+  where id = share.album_id
+  and deleted_at is null;
+
+  if album.id is null then
+    raise exception 'share_not_found';
+  end if;
+
+  return json_build_object(
+    'album', json_build_object(
+      'name', album.name,
+      'description', album.description,
+      'sort_mode', album.sort_mode
+    ),
+    'photos', coalesce((
+      select json_agg(json_build_object(
+        'id', p.id,
+        'path', p.path,
+        'title', p.title,
+        'description', p.description,
+        'taken_at', p.taken_at,
+        'small_path', p.small_path,
+        'medium_path', p.medium_path,
+        'large_path', p.large_path,
+        'small_width', p.small_width,
+        'medium_width', p.medium_width,
+        'large_width', p.large_width,
+        'position', ap.position,
+        'added_at', ap.added_at
+      ) order by ap.position)
+      from public.album_photos ap
+      join public.photos p on p.id = ap.photo_id
+      where ap.album_id = album.id
+      and p.deleted_at is null
+    ), '[]'::json)
+  );
+end;
+$$;
+
+grant execute on function public.get_shared_album(text, text) to anon, authenticated;
@@ -0,0 +1,55 @@
+-- The trash purge deleted storage.objects rows directly, which only removes
+-- the metadata: the files stayed behind in the bucket. It also trusted the
+-- paths stored on the photo rows, so a row naming another user's file would
+-- have taken that file with it.
+--
+-- The database now only deletes the expired rows and hands back the paths to
+-- remove; the purge-trash edge function removes them through the Storage API.
+drop function public.purge_trash();
+
+create function public.purge_trash()
+returns setof text
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+  return query
+  with purged as (
+    delete from public.photos
+    where deleted_at < now() - interval '30 days'
+    returning *
+  )
+  select object_name
+  from purged,
+    unnest(array[purged.path, purged.small_path, purged.medium_path, purged.large_path]) as object_name
+  where object_name is not null
+  -- Only files in the owner's own folder
+  and split_part(object_name, '/', 1) = purged.user_id::text;
+
+  delete from public.albums
+  where deleted_at < now() - interval '30 days';
+end;
+$$;
+
+revoke execute on function public.purge_trash() from public, anon, authenticated;
+grant execute on function public.purge_trash() to service_role;
+
+-- The daily job calls the edge function. The project URL and service role key
+-- come from Vault (secrets "project_url" and "service_role_key").
+create extension if not exists pg_net;
+
+select cron.unschedule('purge-trash');
+
+select cron.schedule(
+  'purge-trash',
+  '0 3 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/purge-trash',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    )
+  );
+  $$
+);
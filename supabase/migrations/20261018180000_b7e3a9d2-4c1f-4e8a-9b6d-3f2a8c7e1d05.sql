@@ -0,0 +1,41 @@
+-- Only the owner may copy an album: the copy brings along every photo link,
+-- which members could otherwise use to keep an album shared with them
+create or replace function public.duplicate_album(source_album_id uuid, new_name text)
+returns public.albums
+language plpgsql
+set search_path = public
+as $$
+declare
+  source public.albums;
+  new_album public.albums;
+begin
+  select * into source
+  from public.albums
+  where id = source_album_id;
+
+  if source.id is null then
+    raise exception 'Album not found';
+  end if;
+
+  if source.user_id <> auth.uid() then
+    raise exception 'Only the album owner can duplicate it';
+  end if;
+
+  insert into public.albums (user_id, name, description, cover_style, sort_mode)
+  values (auth.uid(), new_name, source.description, source.cover_style, source.sort_mode)
+  returning * into new_album;
+
+  insert into public.album_photos (album_id, photo_id, position, added_at)
+  select new_album.id, photo_id, position, added_at
+  from public.album_photos
+  where album_id = source.id;
+
+  -- The cover can only be set once its photo is in the new album
+  update public.albums
+  set cover_photo_id = source.cover_photo_id
+  where id = new_album.id
+  returning * into new_album;
+
+  return new_album;
+end;
+$$;
@@ -0,0 +1,67 @@
+-- Album members see every photo in the albums shared with them, so "can see
+-- it" is not enough to link a photo elsewhere: only the caller's own photos,
+-- or the album owner's, may be added to an album
+drop policy "Users can add photos to shared albums" on public.album_photos;
+create policy "Users can add photos to shared albums"
+  on public.album_photos for insert
+  with check (
+    public.can_add_to_album(album_id) and
+    exists (
+      select 1 from public.photos
+      join public.albums on albums.id = album_photos.album_id
+      where photos.id = album_photos.photo_id
+      and photos.user_id in (auth.uid(), albums.user_id)
+    )
+  );
+
+-- A copy belongs to the caller, so it only takes their own photos along;
+-- members' contributions stay in the original album
+create or replace function public.duplicate_album(source_album_id uuid, new_name text)
+returns public.albums
+language plpgsql
+set search_path = public
+as $$
+declare
+  source public.albums;
+  new_album public.albums;
+begin
+  select * into source
+  from public.albums
+  where id = source_album_id;
+
+  if source.id is null then
+    raise exception 'Album not found';
+  end if;
+
+  if source.user_id <> auth.uid() then
+    raise exception 'Only the album owner can duplicate it';
+  end if;
+
+  insert into public.albums (user_id, name, description, cover_style, sort_mode)
+  values (auth.uid(), new_name, source.description, source.cover_style, source.sort_mode)
+  returning * into new_album;
+
+  insert into public.album_photos (album_id, photo_id, position, added_at)
+  select new_album.id, album_photos.photo_id, album_photos.position, album_photos.added_at
+  from public.album_photos
+  join public.photos on photos.id = album_photos.photo_id
+  where album_photos.album_id = source.id
+  and photos.user_id = auth.uid();
+
+  -- The cover can only be set once its photo is in the new album
+  update public.albums
+  set cover_photo_id = source.cover_photo_id
+  where id = new_album.id
+  and exists (
+    select 1 from public.album_photos
+    where album_id = new_album.id
+    and photo_id = source.cover_photo_id
+  );
+
+  select * into new_album
+  from public.albums
+  where id = new_album.id;
+
+  return new_album;
+end;
+$$;
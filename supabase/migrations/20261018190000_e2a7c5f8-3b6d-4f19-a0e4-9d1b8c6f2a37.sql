@@ -0,0 +1,86 @@
+-- A photo row only grants access to files in its owner's folder. Without
+-- this, anyone could insert a row naming someone else's file and read it.
+create or replace function public.in_owner_folder(object_name text, owner_id uuid)
+returns boolean
+language sql
+immutable
+as $$
+  select object_name is null or split_part(object_name, '/', 1) = owner_id::text;
+$$;
+
+create or replace function public.photo_paths_in_owner_folder(photo public.photos)
+returns boolean
+language sql
+immutable
+as $$
+  select public.in_owner_folder(photo.path, photo.user_id)
+    and public.in_owner_folder(photo.small_path, photo.user_id)
+    and public.in_owner_folder(photo.medium_path, photo.user_id)
+    and public.in_owner_folder(photo.large_path, photo.user_id);
+$$;
+
+drop policy "Users can insert own photos" on public.photos;
+create policy "Users can insert own photos"
+  on public.photos for insert
+  with check (
+    auth.uid() = user_id and
+    public.photo_paths_in_owner_folder(photos)
+  );
+
+drop policy "Users can update own photos" on public.photos;
+create policy "Users can update own photos"
+  on public.photos for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id and
+    public.photo_paths_in_owner_folder(photos)
+  );
+
+drop policy "Users can view own and shared photos" on storage.objects;
+create policy "Users can view own and shared photos"
+  on storage.objects for select
+  using (
+    bucket_id = 'photos' and (
+      auth.uid()::text = (storage.foldername(name))[1] or
+      exists (
+        select 1 from public.photos
+        where objects.name in (photos.path, photos.small_path, photos.medium_path, photos.large_path)
+        and public.in_owner_folder(objects.name, photos.user_id)
+      )
+    )
+  );
+
+create or replace function public.can_view_shared_object(object_name text)
+returns boolean
+language plpgsql
+stable
+security definer set search_path = public, extensions
+as $$
+declare
+  headers json := nullif(current_setting('request.headers', true), '')::json;
+  share_token text := headers ->> 'x-share-token';
+  share_password text := headers ->> 'x-share-password';
+begin
+  if share_token is null then
+    return false;
+  end if;
+
+  return exists (
+    select 1
+    from public.album_shares
+    join public.albums on albums.id = album_shares.album_id
+    join public.album_photos on album_photos.album_id = album_shares.album_id
+    join public.photos on photos.id = album_photos.photo_id
+    where album_shares.token = share_token
+    and (album_shares.expires_at is null or album_shares.expires_at > now())
+    and (
+      album_shares.password_hash is null or
+      crypt(coalesce(share_password, ''), album_shares.password_hash) = album_shares.password_hash
+    )
+    and albums.deleted_at is null
+    and photos.deleted_at is null
+    and object_name in (photos.path, photos.small_path, photos.medium_path, photos.large_path)
+    and public.in_owner_folder(object_name, photos.user_id)
+  );
+end;
+$$;
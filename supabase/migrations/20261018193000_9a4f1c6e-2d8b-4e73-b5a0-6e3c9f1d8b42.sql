@@ -0,0 +1,5 @@
+-- Libraries from before hashing can hold the same file twice. The first copy
+-- to be fingerprinted claims content_hash; the others keep it here, outside
+-- the unique index, so they are not downloaded and hashed again.
+alter table public.photos
+  add column duplicate_content_hash text;
@@ -0,0 +1,57 @@
+-- The monthly breakdown follows the library: photos are grouped by the month
+-- they were taken, and trashed ones are left out like in photo_count, since
+-- trash_bytes already reports them. The months plus the trash add up to
+-- used_bytes.
+create or replace function public.get_storage_usage()
+returns json
+language sql
+stable
+security definer set search_path = public
+as $$
+  select json_build_object(
+    'used_bytes', (
+      select coalesce(sum(size_bytes), 0) from public.photos
+      where user_id = auth.uid()
+    ),
+    'trash_bytes', (
+      select coalesce(sum(size_bytes), 0) from public.photos
+      where user_id = auth.uid()
+      and deleted_at is not null
+    ),
+    'quota_bytes', (
+      select storage_quota_bytes from public.profiles
+      where user_id = auth.uid()
+    ),
+    'photo_count', (
+      select count(*) from public.photos
+      where user_id = auth.uid()
+      and deleted_at is null
+    ),
+    'largest', coalesce((
+      select json_agg(largest)
+      from (
+        select id, title, path, small_path, medium_path, large_path, small_width, medium_width, large_width,
+          size_bytes, mime_type, width, height
+        from public.photos
+        where user_id = auth.uid()
+        and deleted_at is null
+        and size_bytes is not null
+        order by size_bytes desc
+        limit 5
+      ) largest
+    ), '[]'::json),
+    'by_month', coalesce((
+      select json_agg(months order by months.month)
+      from (
+        select
+          to_char(date_trunc('month', taken_at), 'YYYY-MM') as month,
+          coalesce(sum(size_bytes), 0) as bytes,
+          count(*) as photos
+        from public.photos
+        where user_id = auth.uid()
+        and deleted_at is null
+        group by 1
+      ) months
+    ), '[]'::json)
+  );
+$$;
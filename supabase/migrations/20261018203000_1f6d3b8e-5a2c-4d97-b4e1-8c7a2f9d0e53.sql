@@ -0,0 +1,15 @@
+-- Album lists show each album's size without fetching every photo link:
+-- PostgREST exposes this as a computed column (select=*,photo_count).
+-- Trashed photos stay linked to their albums but are not counted.
+create or replace function public.photo_count(public.albums)
+returns bigint
+language sql
+stable
+set search_path = public
+as $$
+  select count(*)
+  from public.album_photos
+  join public.photos on photos.id = album_photos.photo_id
+  where album_photos.album_id = $1.id
+  and photos.deleted_at is null;
+$$;
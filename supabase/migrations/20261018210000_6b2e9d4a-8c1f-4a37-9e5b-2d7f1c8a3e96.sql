@@ -0,0 +1,12 @@
+-- 20261018133000 cleared every avatar that lived in the photos bucket, but
+-- the files are still there at <user id>/avatar.<ext>. Point the profiles back
+-- at them; the app moves each one to the avatars bucket once its owner opens
+-- their profile. The public URL is rebuilt from the project URL kept in Vault
+-- (secret "project_url"); without it the avatars stay cleared.
+update public.profiles
+set avatar_url = (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+  || '/storage/v1/object/public/photos/' || objects.name
+from storage.objects
+where objects.bucket_id = 'photos'
+and objects.name like profiles.user_id::text || '/avatar.%'
+and profiles.avatar_url is null;
@@ -0,0 +1,26 @@
+-- The library's camera and file type filters list every value the user has,
+-- not just the ones on the pages loaded under the current filters
+create or replace function public.get_photo_filter_options()
+returns json
+language sql
+stable
+set search_path = public
+as $$
+  select json_build_object(
+    'cameras', coalesce((
+      select json_agg(distinct photo_metadata.camera_model order by photo_metadata.camera_model)
+      from public.photos
+      join public.photo_metadata on photo_metadata.photo_id = photos.id
+      where photos.user_id = auth.uid()
+      and photos.deleted_at is null
+      and photo_metadata.camera_model is not null
+    ), '[]'::json),
+    'types', coalesce((
+      select json_agg(distinct mime_type order by mime_type)
+      from public.photos
+      where user_id = auth.uid()
+      and deleted_at is null
+      and mime_type is not null
+    ), '[]'::json)
+  );
+$$;
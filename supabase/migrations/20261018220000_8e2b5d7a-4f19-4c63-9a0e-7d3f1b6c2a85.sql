@@ -0,0 +1,55 @@
+-- Photo changes also reach the albums they are in: "album:<id>" for members,
+-- and the album owner's "user:<id>", which is all an owner follows. Album
+-- photo links reach the owner the same way.
+create or replace function public.broadcast_row_change()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  changed jsonb := to_jsonb(case when tg_op = 'DELETE' then old else new end);
+begin
+  if tg_table_name in ('photos', 'albums') then
+    perform realtime.broadcast_changes(
+      'user:' || (changed->>'user_id'), tg_op, tg_op, tg_table_name, tg_table_schema, new, old
+    );
+  end if;
+
+  if tg_table_name in ('albums', 'album_photos') then
+    perform realtime.broadcast_changes(
+      'album:' || coalesce(changed->>'album_id', changed->>'id'), tg_op, tg_op, tg_table_name, tg_table_schema, new, old
+    );
+  end if;
+
+  if tg_table_name = 'album_photos' then
+    perform realtime.broadcast_changes(
+      'user:' || albums.user_id, tg_op, tg_op, tg_table_name, tg_table_schema, new, old
+    )
+    from public.albums
+    where albums.id = (changed->>'album_id')::uuid;
+  end if;
+
+  -- A deleted photo has already lost its album links, whose own changes
+  -- update the albums
+  if tg_table_name = 'photos' then
+    perform realtime.broadcast_changes(
+      'album:' || album_photos.album_id, tg_op, tg_op, tg_table_name, tg_table_schema, new, old
+    )
+    from public.album_photos
+    where album_photos.photo_id = (changed->>'id')::uuid;
+
+    perform realtime.broadcast_changes(
+      'user:' || owners.user_id, tg_op, tg_op, tg_table_name, tg_table_schema, new, old
+    )
+    from (
+      select distinct albums.user_id
+      from public.album_photos
+      join public.albums on albums.id = album_photos.album_id
+      where album_photos.photo_id = (changed->>'id')::uuid
+      and albums.user_id <> (changed->>'user_id')::uuid
+    ) owners;
+  end if;
+
+  return null;
+end;
+$$;